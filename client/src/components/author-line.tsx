@@ -0,0 +1,76 @@
+import { BadgeCheck, Download } from "lucide-react";
+import type { VideoInfo } from "@shared/schema";
+
+interface AuthorLineProps {
+  video: VideoInfo;
+}
+
+function imageProxyUrl(url: string, download = false): string {
+  const params = new URLSearchParams({ url });
+  if (download) {
+    params.set("download", "1");
+  }
+  return `/api/image-proxy?${params.toString()}`;
+}
+
+const compactNumber = new Intl.NumberFormat(undefined, { notation: "compact" });
+
+export function AuthorLine({ video }: AuthorLineProps) {
+  const info = video.authorInfo;
+
+  if (!info) {
+    return video.author ? (
+      <p data-testid="text-author" className="text-sm text-muted-foreground">
+        by {video.author}
+      </p>
+    ) : null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground min-w-0">
+      {info.avatar && (
+        <a
+          href={imageProxyUrl(info.avatar, true)}
+          title="Download avatar"
+          data-testid="link-download-avatar"
+          className="relative group flex-shrink-0"
+        >
+          <img
+            data-testid="img-author-avatar"
+            src={imageProxyUrl(info.avatar)}
+            alt={info.name}
+            className="h-7 w-7 rounded-full object-cover"
+            onError={(e) => {
+              (e.target as HTMLImageElement).style.display = "none";
+            }}
+          />
+          <Download className="absolute inset-0 m-auto h-3.5 w-3.5 text-white opacity-0 group-hover:opacity-100" />
+        </a>
+      )}
+      <span className="truncate">
+        by{" "}
+        {info.profileUrl ? (
+          <a
+            data-testid="link-author-profile"
+            href={info.profileUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-foreground hover:underline"
+          >
+            {info.name}
+          </a>
+        ) : (
+          <span data-testid="text-author" className="text-foreground">{info.name}</span>
+        )}
+      </span>
+      {info.verified && (
+        <BadgeCheck data-testid="icon-author-verified" className="h-4 w-4 flex-shrink-0 text-primary" />
+      )}
+      {info.followers !== undefined && (
+        <span data-testid="text-author-followers" className="flex-shrink-0">
+          · {compactNumber.format(info.followers)} followers
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { AlertCircle, Download, Images, Music, Video } from "lucide-react";
+import type { VideoInfo } from "@shared/schema";
+
+export interface BatchResult {
+  url: string;
+  video?: VideoInfo;
+  error?: string;
+}
+
+interface BatchResultsProps {
+  results: BatchResult[];
+  onDownload: (video: VideoInfo, type: "video" | "audio") => void;
+  onDownloadAll?: (videos: VideoInfo[]) => void;
+  testIdPrefix?: string;
+}
+
+export function BatchResults({ results, onDownload, onDownloadAll, testIdPrefix = "batch" }: BatchResultsProps) {
+  if (results.length === 0) {
+    return null;
+  }
+
+  const videos = results.flatMap(result => (result.video ? [result.video] : []));
+
+  return (
+    <div className="space-y-4">
+      {onDownloadAll && videos.length > 1 && (
+        <Button
+          variant="outline"
+          onClick={() => onDownloadAll(videos)}
+          data-testid={`button-${testIdPrefix}-download-all`}
+          className="w-full"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Download All ({videos.length})
+        </Button>
+      )}
+      {results.map((result, index) => (
+        <Card key={index} className="p-4">
+          {result.video ? (
+            <div className="flex flex-col gap-3">
+              <div className="flex gap-3">
+                {result.video.thumbnail && (
+                  <img
+                    src={result.video.thumbnail}
+                    alt={result.video.title}
+                    className="w-16 h-16 object-cover rounded-md flex-shrink-0"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).style.display = "none";
+                    }}
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground line-clamp-2 text-sm">
+                    {result.video.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    by {result.video.author}
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => onDownload(result.video!, "video")}
+                  data-testid={`button-${testIdPrefix}-download-video-${index}`}
+                >
+                  {result.video.postType === "atlas" ? (
+                    <>
+                      <Images className="mr-1 h-3 w-3" />
+                      Images (ZIP)
+                    </>
+                  ) : (
+                    <>
+                      <Video className="mr-1 h-3 w-3" />
+                      Video
+                    </>
+                  )}
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => onDownload(result.video!, "audio")}
+                  data-testid={`button-${testIdPrefix}-download-audio-${index}`}
+                >
+                  <Music className="mr-1 h-3 w-3" />
+                  Audio
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              <span className="text-sm">{result.error}</span>
+            </div>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import type { VideoVariant } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Scissors } from "lucide-react";
+
+interface ClipRangeProps {
+  /** Qualities to cut from, best first; the clip uses the first unless another is picked. */
+  variants?: VideoVariant[];
+  variantLabel: (variant: VideoVariant) => string;
+  onDownloadClip: (start: number, end: number, variant?: VideoVariant) => void;
+}
+
+/** Seconds from "75", "1:15" or "0:01:15"; null when the text isn't a timestamp. */
+function parseTimestamp(value: string): number | null {
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return null;
+  return parts.reduce((seconds, part) => seconds * 60 + parseFloat(part), 0);
+}
+
+export function ClipRange({ variants = [], variantLabel, onDownloadClip }: ClipRangeProps) {
+  const [start, setStart] = useState("0:00");
+  const [end, setEnd] = useState("0:10");
+  const [variantIndex, setVariantIndex] = useState(0);
+  const variant = variants[variantIndex] ?? variants[0];
+
+  const startSeconds = parseTimestamp(start);
+  const endSeconds = parseTimestamp(end);
+  const valid = startSeconds !== null && endSeconds !== null && endSeconds > startSeconds;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {variants.length > 1 && (
+          <Select value={String(variantIndex)} onValueChange={(value) => setVariantIndex(Number(value))}>
+            <SelectTrigger data-testid="select-clip-quality" aria-label="Clip quality" className="w-auto h-12">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {variants.map((option, index) => (
+                <SelectItem key={option.url} value={String(index)}>
+                  {variantLabel(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          data-testid="input-clip-start"
+          aria-label="Clip start"
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+          className="w-24 h-12"
+        />
+        <span className="text-muted-foreground">to</span>
+        <Input
+          data-testid="input-clip-end"
+          aria-label="Clip end"
+          value={end}
+          onChange={(e) => setEnd(e.target.value)}
+          className="w-24 h-12"
+        />
+        <Button
+          data-testid="button-download-clip"
+          variant="outline"
+          onClick={() => valid && onDownloadClip(startSeconds, endSeconds, variant)}
+          disabled={!valid}
+          className="h-12"
+        >
+          <Scissors className="mr-2 h-4 w-4" />
+          Download Clip
+        </Button>
+      </div>
+      <p data-testid="text-clip-hint" className="text-xs text-muted-foreground">
+        {valid
+          ? "The clip starts at the nearest keyframe before the start time, so it may begin a little early."
+          : "Enter start and end times like 0:05, with the end after the start."}
+      </p>
+    </div>
+  );
+}
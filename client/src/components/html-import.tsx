@@ -0,0 +1,143 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertCircle, FileUp, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  extractHtmlRequestSchema,
+  type ExtractHtmlRequest,
+  type FetchVideoResponse,
+  type VideoInfo,
+} from "@shared/schema";
+
+interface HtmlImportProps {
+  onExtracted: (video: VideoInfo) => void;
+}
+
+export function HtmlImport({ onExtracted }: HtmlImportProps) {
+  const [html, setHtml] = useState("");
+  const [pageUrl, setPageUrl] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const extractMutation = useMutation({
+    mutationFn: async (request: ExtractHtmlRequest): Promise<FetchVideoResponse> => {
+      const response = await apiRequest("POST", "/api/extract-html", request);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.success && data.data) {
+        setError(null);
+        onExtracted(data.data);
+      } else {
+        setError(data.error || "Could not find a video in this page source");
+      }
+    },
+    onError: (err: Error) => {
+      setError(err.message || "An error occurred while reading the page source");
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setHtml(await file.text());
+    setFileName(file.name);
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const request = { html, url: pageUrl.trim() || undefined };
+    const parseResult = extractHtmlRequestSchema.safeParse(request);
+    if (!parseResult.success) {
+      setError(parseResult.error.errors[0]?.message || "Invalid page source");
+      return;
+    }
+    setError(null);
+    extractMutation.mutate(parseResult.data);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        If the server can't load a video page, open it in your browser, save it (Ctrl+S) or copy its
+        source (Ctrl+U), and paste or upload it here.
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          data-testid="input-html-page-url"
+          type="text"
+          placeholder="Page URL (optional, helps with Kwai and mobile pages)"
+          value={pageUrl}
+          onChange={(e) => setPageUrl(e.target.value)}
+          disabled={extractMutation.isPending}
+        />
+        <Textarea
+          data-testid="input-html-source"
+          placeholder="Paste the page source here..."
+          value={html}
+          onChange={(e) => {
+            setHtml(e.target.value);
+            setFileName(null);
+          }}
+          className="min-h-[160px] font-mono text-xs"
+          disabled={extractMutation.isPending}
+        />
+        <div className="flex items-center gap-3">
+          <input
+            ref={fileInputRef}
+            data-testid="input-html-file"
+            type="file"
+            accept=".html,.htm,text/html"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            data-testid="button-html-upload"
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={extractMutation.isPending}
+          >
+            <FileUp className="mr-2 h-4 w-4" />
+            Upload .html File
+          </Button>
+          {fileName && (
+            <span data-testid="text-html-file-name" className="text-sm text-muted-foreground truncate">
+              {fileName}
+            </span>
+          )}
+        </div>
+        <Button
+          data-testid="button-extract-html"
+          type="submit"
+          className="w-full h-14 text-lg font-semibold rounded-lg"
+          disabled={extractMutation.isPending || !html.trim()}
+        >
+          {extractMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Reading Page...
+            </>
+          ) : (
+            "Find Video in Page"
+          )}
+        </Button>
+      </form>
+
+      {error && (
+        <Card className="p-4 border-destructive/50 bg-destructive/5">
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span data-testid="text-html-error" className="text-sm">{error}</span>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { Button } from "@/components/ui/button";
+import { Download, FileArchive } from "lucide-react";
+import type { PostImage } from "@shared/schema";
+
+interface ImageGalleryProps {
+  images: PostImage[];
+  title: string;
+  onDownloadImage: (image: PostImage) => void;
+  onDownloadAll: () => void;
+}
+
+export function ImageGallery({ images, title, onDownloadImage, onDownloadAll }: ImageGalleryProps) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {images.map((image, index) => (
+          <div key={image.url} className="relative group">
+            <img
+              data-testid={`img-gallery-${index}`}
+              src={image.url}
+              alt={`${title} (${index + 1}/${images.length})`}
+              className="w-full aspect-square object-cover rounded-md"
+              loading="lazy"
+            />
+            <Button
+              data-testid={`button-download-image-${index}`}
+              size="icon"
+              variant="secondary"
+              onClick={() => onDownloadImage(image)}
+              className="absolute bottom-1 right-1 h-8 w-8"
+              aria-label={`Download image ${index + 1}`}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <Button
+        data-testid="button-download-zip"
+        onClick={onDownloadAll}
+        className="w-full md:w-auto h-12"
+      >
+        <FileArchive className="mr-2 h-4 w-4" />
+        Download All ({images.length} images, ZIP)
+      </Button>
+    </div>
+  );
+}
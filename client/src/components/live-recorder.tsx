@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, Circle, Download, Loader2, Radio, Square, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isLiveRoomUrl, type LiveRecording, type LiveRecordingResponse } from "@shared/schema";
+
+function formatElapsed(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${hours > 0 ? `${hours}:` : ""}${pad(minutes)}:${pad(seconds)}`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+const STATE_LABELS: Record<LiveRecording["state"], string> = {
+  recording: "Recording",
+  stopped: "Stopped",
+  finished: "Stream ended",
+  failed: "Failed",
+};
+
+export function LiveRecorder() {
+  const [liveUrl, setLiveUrl] = useState("");
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const statusQuery = useQuery<LiveRecordingResponse>({
+    queryKey: ["/api/live", recordingId],
+    enabled: recordingId !== null,
+    refetchInterval: (query) => (query.state.data?.data?.state === "recording" ? 1000 : false),
+  });
+  const recording = statusQuery.data?.data;
+
+  const startMutation = useMutation({
+    mutationFn: async (url: string): Promise<LiveRecordingResponse> => {
+      const response = await apiRequest("POST", "/api/live/start", { url });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.success && data.data) {
+        queryClient.setQueryData(["/api/live", data.data.id], data);
+        setRecordingId(data.data.id);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to start recording");
+      }
+    },
+    onError: (err: Error) => {
+      setError(err.message || "An error occurred while starting the recording");
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (id: string): Promise<LiveRecordingResponse> => {
+      const response = await apiRequest("POST", `/api/live/${id}/stop`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.data) {
+        queryClient.setQueryData(["/api/live", data.data.id], data);
+      }
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string): Promise<LiveRecordingResponse> => {
+      const response = await apiRequest("DELETE", `/api/live/${id}`);
+      return response.json();
+    },
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: ["/api/live", id] });
+      setRecordingId(null);
+    },
+    onError: (err: Error) => {
+      setError(err.message || "An error occurred while deleting the recording");
+    },
+  });
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isLiveRoomUrl(liveUrl.trim())) {
+      setError("Please enter a valid Kuaishou live room URL");
+      return;
+    }
+    setError(null);
+    startMutation.mutate(liveUrl.trim());
+  };
+
+  const isRecording = recording?.state === "recording";
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleStart} className="space-y-4">
+        <Input
+          data-testid="input-live-url"
+          type="text"
+          placeholder="Paste live.kuaishou.com room URL here..."
+          value={liveUrl}
+          onChange={(e) => setLiveUrl(e.target.value)}
+          className="h-14 px-4 text-base rounded-lg border-2 border-border focus:border-primary bg-background"
+          disabled={startMutation.isPending || isRecording}
+        />
+        <Button
+          data-testid="button-live-start"
+          type="submit"
+          className="w-full h-14 text-lg font-semibold rounded-lg"
+          disabled={startMutation.isPending || isRecording || !liveUrl.trim()}
+        >
+          {startMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Connecting...
+            </>
+          ) : (
+            <>
+              <Radio className="mr-2 h-5 w-5" />
+              Start Recording
+            </>
+          )}
+        </Button>
+      </form>
+
+      {error && (
+        <Card className="p-4 border-destructive/50 bg-destructive/5">
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span data-testid="text-live-error" className="text-sm">{error}</span>
+          </div>
+        </Card>
+      )}
+
+      {recording && (
+        <Card className="p-6 space-y-4">
+          <div className="space-y-1">
+            <p data-testid="text-live-title" className="font-medium text-foreground line-clamp-2">
+              {recording.title}
+            </p>
+            {recording.author && (
+              <p className="text-sm text-muted-foreground">by {recording.author}</p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-4 text-sm">
+            <span className="flex items-center gap-1.5">
+              {isRecording && <Circle className="h-3 w-3 fill-destructive text-destructive animate-pulse" />}
+              {STATE_LABELS[recording.state]}
+            </span>
+            <span data-testid="text-live-elapsed" className="font-mono">
+              {formatElapsed(recording.elapsedSeconds)}
+            </span>
+            <span data-testid="text-live-size" className="text-muted-foreground">
+              {formatBytes(recording.bytesWritten)}
+            </span>
+          </div>
+
+          {recording.error && (
+            <p className="text-sm text-destructive">{recording.error}</p>
+          )}
+
+          {isRecording ? (
+            <Button
+              data-testid="button-live-stop"
+              variant="destructive"
+              onClick={() => stopMutation.mutate(recording.id)}
+              disabled={stopMutation.isPending}
+              className="w-full h-12"
+            >
+              <Square className="mr-2 h-4 w-4" />
+              Stop Recording
+            </Button>
+          ) : (
+            <div className="space-y-2">
+              {recording.bytesWritten > 0 && (
+                <Button
+                  data-testid="button-live-download"
+                  onClick={() => window.open(`/api/download/live/${recording.id}`, "_blank")}
+                  className="w-full h-12"
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Recording ({recording.format.toUpperCase()})
+                </Button>
+              )}
+              <Button
+                data-testid="button-live-delete"
+                variant="outline"
+                onClick={() => deleteMutation.mutate(recording.id)}
+                disabled={deleteMutation.isPending}
+                className="w-full h-10"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete Recording
+              </Button>
+              {recording.expiresAt && (
+                <p data-testid="text-live-expires" className="text-xs text-muted-foreground text-center">
+                  Kept on the server until {new Date(recording.expiresAt).toLocaleTimeString()}
+                </p>
+              )}
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
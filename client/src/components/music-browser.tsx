@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { BatchResults, type BatchResult } from "@/components/batch-results";
+import { AlertCircle, Disc3, Loader2, Music } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  isSupportedUrl,
+  type FetchMusicRequest,
+  type FetchMusicResponse,
+  type MusicInfo,
+  type VideoInfo,
+} from "@shared/schema";
+
+interface MusicBrowserProps {
+  onDownload: (video: VideoInfo, type: "video" | "audio") => void;
+  onDownloadAll: (videos: VideoInfo[]) => void;
+}
+
+export function MusicBrowser({ onDownload, onDownloadAll }: MusicBrowserProps) {
+  const [musicUrl, setMusicUrl] = useState("");
+  const [music, setMusic] = useState<MusicInfo | null>(null);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [pcursor, setPcursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMusicMutation = useMutation({
+    mutationFn: async (request: FetchMusicRequest): Promise<FetchMusicResponse> => {
+      const response = await apiRequest("POST", "/api/fetch-music", request);
+      return response.json();
+    },
+    onSuccess: (data, request) => {
+      if (data.success && data.data) {
+        const videos = data.data.videos;
+        if (data.data.music) setMusic(data.data.music);
+        setResults(previous => (request.pcursor ? [...previous, ...videos] : videos));
+        setPcursor(data.data.pcursor);
+        setHasMore(data.data.hasMore);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to fetch music page");
+      }
+    },
+    onError: (err: Error) => {
+      setError(err.message || "An error occurred while fetching the music page");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isSupportedUrl(musicUrl) || !musicUrl.includes("/music/")) {
+      setError("Please enter a valid Kuaishou music URL");
+      return;
+    }
+    setError(null);
+    setMusic(null);
+    setResults([]);
+    setHasMore(false);
+    fetchMusicMutation.mutate({ url: musicUrl.trim() });
+  };
+
+  const handleLoadMore = () => {
+    fetchMusicMutation.mutate({ url: musicUrl.trim(), pcursor });
+  };
+
+  const handleDownloadAudio = (audioUrl: string) => {
+    window.open(`/api/download?url=${encodeURIComponent(audioUrl)}&type=audio`, "_blank");
+  };
+
+  const isFirstPageLoading = fetchMusicMutation.isPending && !fetchMusicMutation.variables?.pcursor;
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          data-testid="input-music-url"
+          type="text"
+          placeholder="Paste Kuaishou music page URL here..."
+          value={musicUrl}
+          onChange={(e) => setMusicUrl(e.target.value)}
+          className="h-14 px-4 text-base rounded-lg border-2 border-border focus:border-primary bg-background"
+          disabled={fetchMusicMutation.isPending}
+        />
+        <Button
+          data-testid="button-fetch-music"
+          type="submit"
+          className="w-full h-14 text-lg font-semibold rounded-lg"
+          disabled={fetchMusicMutation.isPending || !musicUrl.trim()}
+        >
+          {isFirstPageLoading ? (
+            <>
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Fetching Sound...
+            </>
+          ) : (
+            "Find Sound"
+          )}
+        </Button>
+      </form>
+
+      {error && (
+        <Card className="p-4 border-destructive/50 bg-destructive/5">
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span data-testid="text-music-error" className="text-sm">{error}</span>
+          </div>
+        </Card>
+      )}
+
+      {music && (
+        <Card className="p-4">
+          <div className="flex items-center gap-4">
+            {music.cover ? (
+              <img
+                data-testid="img-music-cover"
+                src={music.cover}
+                alt={music.name}
+                className="w-16 h-16 object-cover rounded-md flex-shrink-0"
+                onError={(e) => {
+                  (e.target as HTMLImageElement).style.display = "none";
+                }}
+              />
+            ) : (
+              <Disc3 className="h-10 w-10 text-muted-foreground flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p data-testid="text-music-name" className="font-medium text-foreground truncate">
+                {music.name}
+              </p>
+              {music.artist && (
+                <p data-testid="text-music-artist" className="text-sm text-muted-foreground truncate">
+                  {music.artist}
+                </p>
+              )}
+            </div>
+            {music.audioUrl && (
+              <Button
+                data-testid="button-download-music-audio"
+                onClick={() => handleDownloadAudio(music.audioUrl!)}
+              >
+                <Music className="mr-2 h-4 w-4" />
+                Original Audio
+              </Button>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {results.length > 0 && (
+        <p data-testid="text-music-summary" className="text-sm text-muted-foreground">
+          {results.length} video{results.length !== 1 ? "s" : ""} using this sound
+        </p>
+      )}
+
+      <BatchResults results={results} onDownload={onDownload} onDownloadAll={onDownloadAll} testIdPrefix="music" />
+
+      {hasMore && (
+        <Button
+          data-testid="button-music-load-more"
+          variant="outline"
+          onClick={handleLoadMore}
+          disabled={fetchMusicMutation.isPending}
+          className="w-full"
+        >
+          {fetchMusicMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading...
+            </>
+          ) : (
+            "Load More Videos"
+          )}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { BatchResults, type BatchResult } from "@/components/batch-results";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  fetchTopicRequestSchema,
+  type FetchTopicRequest,
+  type FetchTopicResponse,
+  type VideoInfo,
+} from "@shared/schema";
+
+interface TopicBrowserProps {
+  onDownload: (video: VideoInfo, type: "video" | "audio") => void;
+  onDownloadAll: (videos: VideoInfo[]) => void;
+}
+
+function optionalNumber(value: string): number | undefined {
+  return value.trim() ? Number(value) : undefined;
+}
+
+export function TopicBrowser({ onDownload, onDownloadAll }: TopicBrowserProps) {
+  const [topicUrl, setTopicUrl] = useState("");
+  const [maxCount, setMaxCount] = useState("50");
+  const [minLikes, setMinLikes] = useState("");
+  const [minViews, setMinViews] = useState("");
+  const [topic, setTopic] = useState<string | null>(null);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  /** The first page's request, repeated with the cursor by "Load more". */
+  const [listingRequest, setListingRequest] = useState<FetchTopicRequest | null>(null);
+  const [cursor, setCursor] = useState<Pick<FetchTopicRequest, "pcursor" | "searchSessionId">>({});
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTopicMutation = useMutation({
+    mutationFn: async (request: FetchTopicRequest): Promise<FetchTopicResponse> => {
+      const response = await apiRequest("POST", "/api/fetch-topic", request);
+      return response.json();
+    },
+    onSuccess: (data, request) => {
+      if (data.success && data.data) {
+        const videos = data.data.videos;
+        setTopic(data.data.topic);
+        setResults(previous => (request.pcursor ? [...previous, ...videos] : videos));
+        setCursor({ pcursor: data.data.pcursor, searchSessionId: data.data.searchSessionId });
+        setHasMore(data.data.hasMore);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to fetch topic videos");
+        if (!request.pcursor) setResults([]);
+      }
+    },
+    onError: (err: Error, request) => {
+      setError(err.message || "An error occurred while fetching topic videos");
+      if (!request.pcursor) setResults([]);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const request = {
+      url: topicUrl.trim(),
+      maxCount: optionalNumber(maxCount),
+      minLikes: optionalNumber(minLikes),
+      minViews: optionalNumber(minViews),
+    };
+    if (!fetchTopicRequestSchema.safeParse(request).success) {
+      setError("Please enter a valid Kuaishou topic URL and filters");
+      return;
+    }
+    setError(null);
+    setTopic(null);
+    setResults([]);
+    setHasMore(false);
+    setListingRequest(request);
+    fetchTopicMutation.mutate(request);
+  };
+
+  const handleLoadMore = () => {
+    if (listingRequest) fetchTopicMutation.mutate({ ...listingRequest, ...cursor });
+  };
+
+  const isFirstPageLoading = fetchTopicMutation.isPending && !fetchTopicMutation.variables?.pcursor;
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          data-testid="input-topic-url"
+          type="text"
+          placeholder="Paste Kuaishou hashtag/topic URL here..."
+          value={topicUrl}
+          onChange={(e) => setTopicUrl(e.target.value)}
+          className="h-14 px-4 text-base rounded-lg border-2 border-border focus:border-primary bg-background"
+          disabled={fetchTopicMutation.isPending}
+        />
+        <div className="grid grid-cols-3 gap-2">
+          <label className="space-y-1 text-xs text-muted-foreground">
+            <span>Max videos</span>
+            <Input
+              data-testid="input-topic-max"
+              type="number"
+              min={1}
+              max={500}
+              value={maxCount}
+              onChange={(e) => setMaxCount(e.target.value)}
+              disabled={fetchTopicMutation.isPending}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            <span>Min likes</span>
+            <Input
+              data-testid="input-topic-min-likes"
+              type="number"
+              min={0}
+              value={minLikes}
+              onChange={(e) => setMinLikes(e.target.value)}
+              disabled={fetchTopicMutation.isPending}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            <span>Min views</span>
+            <Input
+              data-testid="input-topic-min-views"
+              type="number"
+              min={0}
+              value={minViews}
+              onChange={(e) => setMinViews(e.target.value)}
+              disabled={fetchTopicMutation.isPending}
+            />
+          </label>
+        </div>
+        <Button
+          data-testid="button-fetch-topic"
+          type="submit"
+          className="w-full h-14 text-lg font-semibold rounded-lg"
+          disabled={fetchTopicMutation.isPending || !topicUrl.trim()}
+        >
+          {isFirstPageLoading ? (
+            <>
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Fetching Videos...
+            </>
+          ) : (
+            "List Topic Videos"
+          )}
+        </Button>
+      </form>
+
+      {error && (
+        <Card className="p-4 border-destructive/50 bg-destructive/5">
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span data-testid="text-topic-error" className="text-sm">{error}</span>
+          </div>
+        </Card>
+      )}
+
+      {topic && results.length > 0 && (
+        <p data-testid="text-topic-summary" className="text-sm text-muted-foreground">
+          {results.length} video{results.length !== 1 ? "s" : ""} under #{topic}
+        </p>
+      )}
+
+      <BatchResults results={results} onDownload={onDownload} onDownloadAll={onDownloadAll} testIdPrefix="topic" />
+
+      {hasMore && (
+        <Button
+          data-testid="button-topic-load-more"
+          variant="outline"
+          onClick={handleLoadMore}
+          disabled={fetchTopicMutation.isPending}
+          className="w-full"
+        >
+          {fetchTopicMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading...
+            </>
+          ) : (
+            "Load More Videos"
+          )}
+        </Button>
+      )}
+    </div>
+  );
+}
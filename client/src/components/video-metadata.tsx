@@ -0,0 +1,61 @@
+import { Badge } from "@/components/ui/badge";
+import { CalendarDays, Music } from "lucide-react";
+import type { VideoInfo } from "@shared/schema";
+
+interface VideoMetadataProps {
+  video: VideoInfo;
+}
+
+export function VideoMetadata({ video }: VideoMetadataProps) {
+  const publishedAt = video.publishedAt ? new Date(video.publishedAt) : null;
+  const showDescription = video.description && video.description !== video.title;
+  const hasMetadata = showDescription || video.hashtags?.length || video.mentions?.length || video.soundtrack || publishedAt;
+
+  if (!hasMetadata) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {showDescription && (
+        <p data-testid="text-description" className="text-muted-foreground whitespace-pre-line line-clamp-4">
+          {video.description}
+        </p>
+      )}
+
+      {video.hashtags && video.hashtags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {video.hashtags.map((tag) => (
+            <Badge key={tag} variant="secondary" data-testid={`badge-hashtag-${tag}`}>
+              #{tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {video.mentions && video.mentions.length > 0 && (
+        <p data-testid="text-mentions" className="text-muted-foreground">
+          Mentions: {video.mentions.map((name) => `@${name}`).join(", ")}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+        {video.soundtrack && (
+          <span data-testid="text-soundtrack" className="flex items-center gap-1.5 min-w-0">
+            <Music className="h-3.5 w-3.5 flex-shrink-0" />
+            <span className="truncate">
+              {video.soundtrack.name}
+              {video.soundtrack.artist && ` · ${video.soundtrack.artist}`}
+            </span>
+          </span>
+        )}
+        {publishedAt && (
+          <span data-testid="text-published-at" className="flex items-center gap-1.5">
+            <CalendarDays className="h-3.5 w-3.5" />
+            {publishedAt.toLocaleDateString()}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
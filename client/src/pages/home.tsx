@@ -1,21 +1,47 @@
 import { useState, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, Music, Video, AlertCircle, Link, History, Trash2, RefreshCw, ListPlus } from "lucide-react";
+import { AuthorLine } from "@/components/author-line";
+import { BatchResults, type BatchResult } from "@/components/batch-results";
+import { ClipRange } from "@/components/clip-range";
+import { HtmlImport } from "@/components/html-import";
+import { ImageGallery } from "@/components/image-gallery";
+import { LiveRecorder } from "@/components/live-recorder";
+import { MusicBrowser } from "@/components/music-browser";
+import { TopicBrowser } from "@/components/topic-browser";
+import { VideoMetadata } from "@/components/video-metadata";
+import { Loader2, Music, Video, AlertCircle, Link, History, Trash2, RefreshCw, ListPlus, UserRound, Radio, MessageSquare, Disc3, Hash, FileCode } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import type { VideoInfo, FetchVideoResponse } from "@shared/schema";
+import {
+  isSupportedUrl,
+  type VideoInfo,
+  type VideoVariant,
+  type PostImage,
+  type FetchVideoResponse,
+  type FetchProfileRequest,
+  type FetchProfileResponse,
+  type CreatorProfile,
+} from "@shared/schema";
+import { parseVideoId, shortVideoUrl, videoIdKey } from "@shared/video-id";
 
 interface DownloadHistoryItem {
   id: string;
+  videoKey?: string;
   title: string;
   author: string;
   thumbnail: string;
+  /** The page the video came from; re-downloads fetch it again since media URLs expire. */
+  pageUrl?: string;
   videoUrl: string;
   audioUrl?: string;
+  images?: string[];
   downloadedAt: string;
 }
 
@@ -33,16 +59,26 @@ function getHistory(): DownloadHistoryItem[] {
 function saveToHistory(video: VideoInfo): void {
   try {
     const history = getHistory();
+    const videoKey = video.videoId ? videoIdKey(video.videoId) : undefined;
     const newItem: DownloadHistoryItem = {
       id: Date.now().toString(),
+      videoKey,
       title: video.title,
       author: video.author,
       thumbnail: video.thumbnail,
+      pageUrl: video.pageUrl,
       videoUrl: video.videoUrl,
       audioUrl: video.audioUrl,
+      images: video.images?.map(image => image.url),
       downloadedAt: new Date().toISOString(),
     };
-    const exists = history.some(item => item.videoUrl === video.videoUrl);
+    const exists = history.some(item =>
+      videoKey && item.videoKey
+        ? item.videoKey === videoKey
+        : video.postType === "atlas"
+          ? item.images?.[0] === video.images?.[0]?.url
+          : item.videoUrl === video.videoUrl
+    );
     if (!exists) {
       const updated = [newItem, ...history].slice(0, 20);
       localStorage.setItem(HISTORY_KEY, JSON.stringify(updated));
@@ -51,6 +87,92 @@ function saveToHistory(video: VideoInfo): void {
   }
 }
 
+/** Entries saved before pageUrl was stored can still be refetched when they are Kuaishou photos. */
+function historyPageUrl(item: DownloadHistoryItem): string | undefined {
+  if (item.pageUrl) return item.pageUrl;
+  const [platform, photoId] = item.videoKey?.split(":") ?? [];
+  return platform === "kuaishou" && photoId ? shortVideoUrl(photoId) : undefined;
+}
+
+function formatVariantLabel(variant: VideoVariant): string {
+  const parts = [variant.resolution];
+  if (variant.codec !== "unknown") {
+    parts.push(variant.codec === "hevc" ? "HEVC" : "H.264");
+  }
+  if (variant.bitrate) {
+    parts.push(`${(variant.bitrate / 1000).toFixed(1)} Mbps`);
+  }
+  if (variant.fileSize) {
+    parts.push(variant.fileSize);
+  }
+  return parts.join(" · ");
+}
+
+const EMBED_METADATA_KEY = "kuaishou_embed_metadata";
+
+function getEmbedMetadata(): boolean {
+  try {
+    return localStorage.getItem(EMBED_METADATA_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+function saveEmbedMetadata(enabled: boolean): void {
+  try {
+    localStorage.setItem(EMBED_METADATA_KEY, enabled ? "1" : "0");
+  } catch {
+  }
+}
+
+/** /api/download link; with `tagsFrom`, the server writes its title, author, source and cover into the file. */
+function buildDownloadUrl(sourceUrl: string, type: "video" | "audio", tagsFrom?: VideoInfo): string {
+  const params = new URLSearchParams({ url: sourceUrl, type });
+  if (tagsFrom) {
+    params.set("metadata", "1");
+    params.set("title", tagsFrom.title);
+    params.set("artist", tagsFrom.authorInfo?.name || tagsFrom.author);
+    if (tagsFrom.photoId) {
+      params.set("photoId", tagsFrom.photoId);
+    }
+    if (tagsFrom.pageUrl) {
+      params.set("source", tagsFrom.pageUrl);
+    }
+    if (tagsFrom.publishedAt) {
+      params.set("date", tagsFrom.publishedAt);
+    }
+    if (tagsFrom.thumbnail) {
+      params.set("cover", tagsFrom.thumbnail);
+    }
+  }
+  return `/api/download?${params.toString()}`;
+}
+
+function buildZipDownloadUrl(imageUrls: string[], audioUrl?: string): string {
+  const params = new URLSearchParams();
+  imageUrls.forEach(imageUrl => params.append("image", imageUrl));
+  if (audioUrl) {
+    params.set("audio", audioUrl);
+  }
+  return `/api/download-zip?${params.toString()}`;
+}
+
+/** Follows an attachment URL in place; unlike window.open it is not popup-blocked when repeated. */
+function triggerDownload(href: string): void {
+  const link = document.createElement("a");
+  link.href = href;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
+
+const DOWNLOAD_ALL_INTERVAL_MS = 800;
+
+function buildCommentsExportUrl(photoId: string, format: "csv" | "ndjson"): string {
+  const params = new URLSearchParams({ url: shortVideoUrl(photoId), format });
+  return `/api/comments?${params.toString()}`;
+}
+
 function clearHistory(): void {
   try {
     localStorage.removeItem(HISTORY_KEY);
@@ -63,10 +185,25 @@ export default function Home() {
   const [batchUrls, setBatchUrls] = useState("");
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
   const [history, setHistory] = useState<DownloadHistoryItem[]>([]);
   const [activeTab, setActiveTab] = useState("single");
-  const [batchResults, setBatchResults] = useState<Array<{url: string; video?: VideoInfo; error?: string}>>([]);
+  const [embedMetadata, setEmbedMetadata] = useState(getEmbedMetadata);
+  const [batchResults, setBatchResults] = useState<BatchResult[]>([]);
   const [batchProcessing, setBatchProcessing] = useState(false);
+  const [batchTotal, setBatchTotal] = useState(0);
+  const [profileUrl, setProfileUrl] = useState("");
+  const [profileMaxCount, setProfileMaxCount] = useState("50");
+  const [profileFrom, setProfileFrom] = useState("");
+  const [profileTo, setProfileTo] = useState("");
+  const [profile, setProfile] = useState<CreatorProfile | null>(null);
+  const [profileResults, setProfileResults] = useState<BatchResult[]>([]);
+  /** The first page's request, repeated with the cursor by "Load more". */
+  const [profileRequest, setProfileRequest] = useState<FetchProfileRequest | null>(null);
+  const [profileCursor, setProfileCursor] = useState<string | undefined>();
+  const [profileHasMore, setProfileHasMore] = useState(false);
 
   useEffect(() => {
     setHistory(getHistory());
@@ -98,7 +235,7 @@ export default function Home() {
       setError("Please enter a Kuaishou URL");
       return;
     }
-    if (!url.includes("kuaishou.com") && !url.includes("kwai.com")) {
+    if (!isSupportedUrl(url)) {
       setError("Please enter a valid Kuaishou URL");
       return;
     }
@@ -107,29 +244,93 @@ export default function Home() {
     fetchVideoMutation.mutate(url.trim());
   };
 
+  const fetchProfileMutation = useMutation({
+    mutationFn: async (request: FetchProfileRequest): Promise<FetchProfileResponse> => {
+      const response = await apiRequest("POST", "/api/fetch-profile", request);
+      return response.json();
+    },
+    onSuccess: (data, request) => {
+      if (data.success && data.data) {
+        const videos = data.data.videos;
+        setProfile(data.data.profile);
+        setProfileResults(previous => (request.pcursor ? [...previous, ...videos] : videos));
+        setProfileCursor(data.data.pcursor);
+        setProfileHasMore(data.data.hasMore);
+        setProfileError(null);
+      } else {
+        setProfileError(data.error || "Failed to fetch creator videos");
+        if (!request.pcursor) setProfileResults([]);
+      }
+    },
+    onError: (err: Error, request) => {
+      setProfileError(err.message || "An error occurred while fetching creator videos");
+      if (!request.pcursor) setProfileResults([]);
+    },
+  });
+
+  const handleProfileSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isSupportedUrl(profileUrl) || !profileUrl.includes("/profile/")) {
+      setProfileError("Please enter a valid Kuaishou profile URL");
+      return;
+    }
+    setProfileError(null);
+    setProfile(null);
+    setProfileResults([]);
+    setProfileHasMore(false);
+    const request: FetchProfileRequest = {
+      url: profileUrl.trim(),
+      maxCount: Number(profileMaxCount) || undefined,
+      from: profileFrom || undefined,
+      to: profileTo || undefined,
+    };
+    setProfileRequest(request);
+    fetchProfileMutation.mutate(request);
+  };
+
+  const handleProfileLoadMore = () => {
+    if (profileRequest) fetchProfileMutation.mutate({ ...profileRequest, pcursor: profileCursor });
+  };
+
+  const isFirstProfilePageLoading = fetchProfileMutation.isPending && !fetchProfileMutation.variables?.pcursor;
+
   const handleBatchSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const seenUrls = new Set<string>();
     const urls = batchUrls
       .split("\n")
       .map(u => u.trim())
-      .filter(u => u.includes("kuaishou.com") || u.includes("kwai.com"));
+      .filter(u => isSupportedUrl(u))
+      .filter(u => {
+        const parsedId = parseVideoId(u);
+        const key = parsedId ? videoIdKey(parsedId) : u;
+        if (seenUrls.has(key)) return false;
+        seenUrls.add(key);
+        return true;
+      });
     
     if (urls.length === 0) {
-      setError("Please enter at least one valid Kuaishou URL");
+      setBatchError("Please enter at least one valid Kuaishou URL");
       return;
     }
 
     setBatchProcessing(true);
+    setBatchTotal(urls.length);
     setBatchResults([]);
-    setError(null);
+    setBatchError(null);
 
-    const results: Array<{url: string; video?: VideoInfo; error?: string}> = [];
+    const results: BatchResult[] = [];
+    const seenVideos = new Set<string>();
     
     for (const videoUrl of urls) {
       try {
         const response = await apiRequest("POST", "/api/fetch-video", { url: videoUrl });
         const data: FetchVideoResponse = await response.json();
-        if (data.success && data.data) {
+        const videoKey = data.data?.videoId ? videoIdKey(data.data.videoId) : undefined;
+        if (videoKey && seenVideos.has(videoKey)) {
+          results.push({ url: videoUrl, error: "Same video as an earlier link" });
+        } else if (data.success && data.data) {
+          if (videoKey) seenVideos.add(videoKey);
           results.push({ url: videoUrl, video: data.data });
         } else {
           results.push({ url: videoUrl, error: data.error || "Failed to fetch" });
@@ -143,32 +344,110 @@ export default function Home() {
     setBatchProcessing(false);
   };
 
-  const handleDownload = (video: VideoInfo, type: "video" | "audio") => {
+  /** Where a download of the video or its audio comes from, with metadata embedded when the setting is on. */
+  const downloadHref = (video: VideoInfo, type: "video" | "audio", variant?: VideoVariant): string => {
+    if (type === "video" && video.postType === "atlas" && video.images) {
+      return buildZipDownloadUrl(video.images.map(image => image.url), video.audioUrl);
+    }
     const sourceUrl = type === "audio" && video.audioUrl 
       ? video.audioUrl 
-      : video.videoUrl;
-    const downloadUrl = `/api/download?url=${encodeURIComponent(sourceUrl)}&type=${type}`;
+      : variant?.url || video.videoUrl;
+    return buildDownloadUrl(sourceUrl, type, embedMetadata ? video : undefined);
+  };
+
+  const handleDownload = (video: VideoInfo, type: "video" | "audio", variant?: VideoVariant) => {
+    saveToHistory(video);
+    setHistory(getHistory());
+    window.open(downloadHref(video, type, variant), "_blank");
+  };
+
+  const handleDownloadClip = (video: VideoInfo, start: number, end: number, variant?: VideoVariant) => {
+    const params = new URLSearchParams({ url: variant?.url || video.videoUrl, start: String(start), end: String(end) });
+    saveToHistory(video);
+    setHistory(getHistory());
+    window.open(`/api/clip?${params.toString()}`, "_blank");
+  };
+
+  const handleDownloadImage = (video: VideoInfo, image: PostImage) => {
+    saveToHistory(video);
+    setHistory(getHistory());
+    window.open(`/api/download?url=${encodeURIComponent(image.url)}&type=image`, "_blank");
+  };
+
+  const handleDownloadAllImages = (video: VideoInfo) => {
     saveToHistory(video);
     setHistory(getHistory());
-    window.open(downloadUrl, "_blank");
+    window.open(buildZipDownloadUrl((video.images || []).map(image => image.url), video.audioUrl), "_blank");
   };
 
+  const handleDownloadAll = (videos: VideoInfo[]) => {
+    videos.forEach((video, index) => {
+      const href = downloadHref(video, "video");
+      saveToHistory(video);
+      setTimeout(() => triggerDownload(href), index * DOWNLOAD_ALL_INTERVAL_MS);
+    });
+    setHistory(getHistory());
+  };
+
+  // The stored media URLs expire, so re-downloads look the video up again and
+  // go through the same path as a fresh download. The link is clicked rather
+  // than opened in a window because the click that started it is long past.
+  const historyDownloadMutation = useMutation({
+    mutationFn: async ({ pageUrl }: { pageUrl: string; type: "video" | "audio" }): Promise<FetchVideoResponse> => {
+      const response = await apiRequest("POST", "/api/fetch-video", { url: pageUrl });
+      return response.json();
+    },
+    onSuccess: (data, { type }) => {
+      if (data.success && data.data) {
+        setHistoryError(null);
+        triggerDownload(downloadHref(data.data, type));
+      } else {
+        setHistoryError(data.error || "Could not look the video up again");
+      }
+    },
+    onError: (err: Error) => {
+      setHistoryError(err.message || "Could not look the video up again");
+    },
+  });
+
   const handleHistoryDownload = (item: DownloadHistoryItem, type: "video" | "audio") => {
+    const pageUrl = historyPageUrl(item);
+    if (pageUrl) {
+      historyDownloadMutation.mutate({ pageUrl, type });
+      return;
+    }
+    // Without a page to go back to, the saved links are all there is.
+    if (type === "video" && item.images?.length) {
+      window.open(buildZipDownloadUrl(item.images, item.audioUrl), "_blank");
+      return;
+    }
     const sourceUrl = type === "audio" && item.audioUrl 
       ? item.audioUrl 
       : item.videoUrl;
-    const downloadUrl = `/api/download?url=${encodeURIComponent(sourceUrl)}&type=${type}`;
-    window.open(downloadUrl, "_blank");
+    window.open(buildDownloadUrl(sourceUrl, type), "_blank");
   };
 
   const handleReset = () => {
     setUrl("");
     setVideoInfo(null);
     setError(null);
+    setBatchError(null);
     setBatchResults([]);
     setBatchUrls("");
   };
 
+  const handleHtmlExtracted = (video: VideoInfo) => {
+    setUrl("");
+    setVideoInfo(video);
+    setError(null);
+    setActiveTab("single");
+  };
+
+  const handleEmbedMetadataChange = (enabled: boolean) => {
+    setEmbedMetadata(enabled);
+    saveEmbedMetadata(enabled);
+  };
+
   const handleClearHistory = () => {
     clearHistory();
     setHistory([]);
@@ -179,7 +458,7 @@ export default function Home() {
       <div className="mx-auto max-w-2xl px-4 py-8 md:py-12">
         <div className="space-y-8">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger data-testid="tab-single" value="single" className="gap-2">
                 <Link className="h-4 w-4" />
                 <span className="hidden sm:inline">Single URL</span>
@@ -188,6 +467,26 @@ export default function Home() {
                 <ListPlus className="h-4 w-4" />
                 <span className="hidden sm:inline">Batch</span>
               </TabsTrigger>
+              <TabsTrigger data-testid="tab-profile" value="profile" className="gap-2">
+                <UserRound className="h-4 w-4" />
+                <span className="hidden sm:inline">Creator</span>
+              </TabsTrigger>
+              <TabsTrigger data-testid="tab-music" value="music" className="gap-2">
+                <Disc3 className="h-4 w-4" />
+                <span className="hidden sm:inline">Music</span>
+              </TabsTrigger>
+              <TabsTrigger data-testid="tab-topic" value="topic" className="gap-2">
+                <Hash className="h-4 w-4" />
+                <span className="hidden sm:inline">Topic</span>
+              </TabsTrigger>
+              <TabsTrigger data-testid="tab-live" value="live" className="gap-2">
+                <Radio className="h-4 w-4" />
+                <span className="hidden sm:inline">Live</span>
+              </TabsTrigger>
+              <TabsTrigger data-testid="tab-html" value="html" className="gap-2">
+                <FileCode className="h-4 w-4" />
+                <span className="hidden sm:inline">HTML</span>
+              </TabsTrigger>
               <TabsTrigger data-testid="tab-history" value="history" className="gap-2">
                 <History className="h-4 w-4" />
                 <span className="hidden sm:inline">History</span>
@@ -283,50 +582,135 @@ export default function Home() {
                         >
                           {videoInfo.title}
                         </h2>
-                        {videoInfo.author && (
+                        <AuthorLine video={videoInfo} />
+                        {videoInfo.duration && (
                           <p
-                            data-testid="text-author"
+                            data-testid="text-duration"
                             className="text-sm text-muted-foreground"
                           >
-                            by {videoInfo.author}
+                            {videoInfo.duration}
                           </p>
                         )}
+                        {videoInfo.postType !== "atlas" && videoInfo.watermark !== undefined && (
+                          <Badge
+                            data-testid="badge-watermark"
+                            variant={videoInfo.watermark ? "outline" : "secondary"}
+                          >
+                            {videoInfo.watermark ? "Watermarked" : "No watermark"}
+                          </Badge>
+                        )}
                       </div>
                     </div>
 
+                    <VideoMetadata video={videoInfo} />
+
                     <div className="space-y-4">
-                      <div>
-                        <p className="text-sm font-medium text-foreground mb-3">
-                          Download Video:
-                        </p>
-                        <Button
-                          data-testid="button-download-video"
-                          onClick={() => handleDownload(videoInfo, "video")}
-                          className="w-full md:w-auto h-12"
-                        >
-                          <Video className="mr-2 h-4 w-4" />
-                          {videoInfo.quality || "720p"}
-                          {videoInfo.fileSize && (
-                            <span className="ml-1 opacity-80">
-                              ({videoInfo.fileSize})
-                            </span>
+                      {videoInfo.postType === "atlas" && videoInfo.images ? (
+                        <div>
+                          <p className="text-sm font-medium text-foreground mb-3">
+                            Download Images:
+                          </p>
+                          <ImageGallery
+                            images={videoInfo.images}
+                            title={videoInfo.title}
+                            onDownloadImage={(image) => handleDownloadImage(videoInfo, image)}
+                            onDownloadAll={() => handleDownloadAllImages(videoInfo)}
+                          />
+                        </div>
+                      ) : (
+                        <div>
+                          <p className="text-sm font-medium text-foreground mb-3">
+                            Download Video:
+                          </p>
+                          {videoInfo.variants && videoInfo.variants.length > 0 ? (
+                            <div className="flex flex-col gap-2">
+                              {videoInfo.variants.map((variant, index) => (
+                                <Button
+                                  key={variant.url}
+                                  data-testid={`button-download-variant-${index}`}
+                                  variant={index === 0 ? "default" : "outline"}
+                                  onClick={() => handleDownload(videoInfo, "video", variant)}
+                                  className="w-full h-12 justify-start"
+                                >
+                                  <Video className="mr-2 h-4 w-4" />
+                                  {formatVariantLabel(variant)}
+                                  {variant.watermark && (
+                                    <span className="ml-auto text-xs opacity-80">
+                                      Watermarked
+                                    </span>
+                                  )}
+                                </Button>
+                              ))}
+                            </div>
+                          ) : (
+                            <Button
+                              data-testid="button-download-video"
+                              onClick={() => handleDownload(videoInfo, "video")}
+                              className="w-full md:w-auto h-12"
+                            >
+                              <Video className="mr-2 h-4 w-4" />
+                              {videoInfo.quality || "Video"}
+                              {videoInfo.fileSize && (
+                                <span className="ml-1 opacity-80">
+                                  ({videoInfo.fileSize})
+                                </span>
+                              )}
+                            </Button>
                           )}
-                        </Button>
-                      </div>
+                        </div>
+                      )}
 
-                      <div>
-                        <p className="text-sm font-medium text-foreground mb-3">
-                          Download Audio Only:
-                        </p>
-                        <Button
-                          data-testid="button-download-audio"
-                          onClick={() => handleDownload(videoInfo, "audio")}
-                          className="w-full md:w-auto h-12"
-                        >
-                          <Music className="mr-2 h-4 w-4" />
-                          Audio (M4A)
-                        </Button>
-                      </div>
+                      {videoInfo.postType !== "atlas" && (
+                        <div>
+                          <p className="text-sm font-medium text-foreground mb-3">
+                            Download Clip:
+                          </p>
+                          <ClipRange
+                            key={videoInfo.videoUrl}
+                            variants={videoInfo.variants}
+                            variantLabel={formatVariantLabel}
+                            onDownloadClip={(start, end, variant) => handleDownloadClip(videoInfo, start, end, variant)}
+                          />
+                        </div>
+                      )}
+
+                      {(videoInfo.postType !== "atlas" || videoInfo.audioUrl) && (
+                        <div>
+                          <p className="text-sm font-medium text-foreground mb-3">
+                            Download Audio Only:
+                          </p>
+                          <Button
+                            data-testid="button-download-audio"
+                            onClick={() => handleDownload(videoInfo, "audio")}
+                            className="w-full md:w-auto h-12"
+                          >
+                            <Music className="mr-2 h-4 w-4" />
+                            Audio (M4A)
+                          </Button>
+                        </div>
+                      )}
+
+                      {videoInfo.videoId?.platform === "kuaishou" && videoInfo.photoId && (
+                        <div>
+                          <p className="text-sm font-medium text-foreground mb-3">
+                            Export Comments:
+                          </p>
+                          <div className="flex gap-2">
+                            {(["csv", "ndjson"] as const).map(format => (
+                              <Button
+                                key={format}
+                                data-testid={`button-export-comments-${format}`}
+                                variant="outline"
+                                onClick={() => window.open(buildCommentsExportUrl(videoInfo.photoId!, format), "_blank")}
+                                className="h-10"
+                              >
+                                <MessageSquare className="mr-2 h-4 w-4" />
+                                {format.toUpperCase()}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </div>
 
                     <Button
@@ -361,7 +745,7 @@ export default function Home() {
                   {batchProcessing ? (
                     <>
                       <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                      Processing {batchResults.length} / {batchUrls.split("\n").filter(u => u.trim()).length}...
+                      Processing {batchResults.length} / {batchTotal}...
                     </>
                   ) : (
                     "Process All URLs"
@@ -369,64 +753,147 @@ export default function Home() {
                 </Button>
               </form>
 
-              {batchResults.length > 0 && (
-                <div className="space-y-4">
-                  {batchResults.map((result, index) => (
-                    <Card key={index} className="p-4">
-                      {result.video ? (
-                        <div className="flex flex-col gap-3">
-                          <div className="flex gap-3">
-                            {result.video.thumbnail && (
-                              <img
-                                src={result.video.thumbnail}
-                                alt={result.video.title}
-                                className="w-16 h-16 object-cover rounded-md flex-shrink-0"
-                                onError={(e) => {
-                                  (e.target as HTMLImageElement).style.display = "none";
-                                }}
-                              />
-                            )}
-                            <div className="flex-1 min-w-0">
-                              <p className="font-medium text-foreground line-clamp-2 text-sm">
-                                {result.video.title}
-                              </p>
-                              <p className="text-xs text-muted-foreground">
-                                by {result.video.author}
-                              </p>
-                            </div>
-                          </div>
-                          <div className="flex flex-wrap gap-2">
-                            <Button
-                              size="sm"
-                              onClick={() => handleDownload(result.video!, "video")}
-                              data-testid={`button-batch-download-video-${index}`}
-                            >
-                              <Video className="mr-1 h-3 w-3" />
-                              Video
-                            </Button>
-                            <Button
-                              size="sm"
-                              onClick={() => handleDownload(result.video!, "audio")}
-                              data-testid={`button-batch-download-audio-${index}`}
-                            >
-                              <Music className="mr-1 h-3 w-3" />
-                              Audio
-                            </Button>
-                          </div>
-                        </div>
-                      ) : (
-                        <div className="flex items-center gap-2 text-destructive">
-                          <AlertCircle className="h-4 w-4" />
-                          <span className="text-sm">{result.error}</span>
-                        </div>
-                      )}
-                    </Card>
-                  ))}
+              {batchError && (
+                <Card className="p-4 border-destructive/50 bg-destructive/5">
+                  <div className="flex items-center gap-2 text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <span data-testid="text-batch-error" className="text-sm">{batchError}</span>
+                  </div>
+                </Card>
+              )}
+
+              <BatchResults results={batchResults} onDownload={handleDownload} onDownloadAll={handleDownloadAll} />
+            </TabsContent>
+
+            <TabsContent value="profile" className="space-y-6 mt-6">
+              <form onSubmit={handleProfileSubmit} className="space-y-4">
+                <Input
+                  data-testid="input-profile-url"
+                  type="text"
+                  placeholder="Paste Kuaishou creator profile URL here..."
+                  value={profileUrl}
+                  onChange={(e) => setProfileUrl(e.target.value)}
+                  className="h-14 px-4 text-base rounded-lg border-2 border-border focus:border-primary bg-background"
+                  disabled={fetchProfileMutation.isPending}
+                />
+                <div className="grid grid-cols-3 gap-2">
+                  <label className="space-y-1 text-xs text-muted-foreground">
+                    <span>From</span>
+                    <Input
+                      data-testid="input-profile-from"
+                      type="date"
+                      value={profileFrom}
+                      onChange={(e) => setProfileFrom(e.target.value)}
+                      disabled={fetchProfileMutation.isPending}
+                    />
+                  </label>
+                  <label className="space-y-1 text-xs text-muted-foreground">
+                    <span>To</span>
+                    <Input
+                      data-testid="input-profile-to"
+                      type="date"
+                      value={profileTo}
+                      onChange={(e) => setProfileTo(e.target.value)}
+                      disabled={fetchProfileMutation.isPending}
+                    />
+                  </label>
+                  <label className="space-y-1 text-xs text-muted-foreground">
+                    <span>Max videos</span>
+                    <Input
+                      data-testid="input-profile-max"
+                      type="number"
+                      min={1}
+                      max={500}
+                      value={profileMaxCount}
+                      onChange={(e) => setProfileMaxCount(e.target.value)}
+                      disabled={fetchProfileMutation.isPending}
+                    />
+                  </label>
                 </div>
+                <Button
+                  data-testid="button-fetch-profile"
+                  type="submit"
+                  className="w-full h-14 text-lg font-semibold rounded-lg"
+                  disabled={fetchProfileMutation.isPending || !profileUrl.trim()}
+                >
+                  {isFirstProfilePageLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Fetching Videos...
+                    </>
+                  ) : (
+                    "List Creator Videos"
+                  )}
+                </Button>
+              </form>
+
+              {profileError && (
+                <Card className="p-4 border-destructive/50 bg-destructive/5">
+                  <div className="flex items-center gap-2 text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <span data-testid="text-profile-error" className="text-sm">{profileError}</span>
+                  </div>
+                </Card>
+              )}
+
+              {profile && profileResults.length > 0 && (
+                <p data-testid="text-profile-summary" className="text-sm text-muted-foreground">
+                  {profileResults.length} video{profileResults.length !== 1 ? "s" : ""} from {profile.name || profile.userId}
+                </p>
+              )}
+
+              <BatchResults
+                results={profileResults}
+                onDownload={handleDownload}
+                onDownloadAll={handleDownloadAll}
+                testIdPrefix="profile"
+              />
+
+              {profileHasMore && (
+                <Button
+                  data-testid="button-profile-load-more"
+                  variant="outline"
+                  onClick={handleProfileLoadMore}
+                  disabled={fetchProfileMutation.isPending}
+                  className="w-full"
+                >
+                  {fetchProfileMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Loading...
+                    </>
+                  ) : (
+                    "Load More Videos"
+                  )}
+                </Button>
               )}
             </TabsContent>
 
+            <TabsContent value="music" className="space-y-6 mt-6">
+              <MusicBrowser onDownload={handleDownload} onDownloadAll={handleDownloadAll} />
+            </TabsContent>
+
+            <TabsContent value="topic" className="space-y-6 mt-6">
+              <TopicBrowser onDownload={handleDownload} onDownloadAll={handleDownloadAll} />
+            </TabsContent>
+
+            <TabsContent value="live" className="space-y-6 mt-6">
+              <LiveRecorder />
+            </TabsContent>
+
+            <TabsContent value="html" className="space-y-6 mt-6">
+              <HtmlImport onExtracted={handleHtmlExtracted} />
+            </TabsContent>
+
             <TabsContent value="history" className="space-y-6 mt-6">
+              {historyError && (
+                <Card className="p-4 border-destructive/50 bg-destructive/5">
+                  <div className="flex items-center gap-2 text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <span data-testid="text-history-error" className="text-sm">{historyError}</span>
+                  </div>
+                </Card>
+              )}
               {history.length > 0 ? (
                 <>
                   <div className="flex justify-between items-center">
@@ -474,15 +941,17 @@ export default function Home() {
                             <Button
                               size="sm"
                               onClick={() => handleHistoryDownload(item, "video")}
+                              disabled={historyDownloadMutation.isPending}
                               data-testid={`button-history-download-video-${item.id}`}
                             >
                               <RefreshCw className="mr-1 h-3 w-3" />
-                              Re-download Video
+                              {item.images?.length ? "Re-download Images" : "Re-download Video"}
                             </Button>
                             <Button
                               size="sm"
                               variant="outline"
                               onClick={() => handleHistoryDownload(item, "audio")}
+                              disabled={historyDownloadMutation.isPending}
                               data-testid={`button-history-download-audio-${item.id}`}
                             >
                               <Music className="mr-1 h-3 w-3" />
@@ -510,6 +979,18 @@ export default function Home() {
             </TabsContent>
           </Tabs>
 
+          <div className="flex items-center justify-center gap-2">
+            <Switch
+              id="embed-metadata"
+              data-testid="switch-embed-metadata"
+              checked={embedMetadata}
+              onCheckedChange={handleEmbedMetadataChange}
+            />
+            <Label htmlFor="embed-metadata" className="text-sm text-muted-foreground">
+              Embed title, author, source link and cover in downloaded files
+            </Label>
+          </div>
+
           <div className="text-center">
             <p className="text-xs text-muted-foreground">
               This tool is for personal use only. Please respect copyright laws.
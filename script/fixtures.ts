@@ -0,0 +1,142 @@
+import { copyFile, readdir, readFile, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { buildOutcome, runExtractors } from "../server/extractors";
+
+// Golden-fixture regression tests for the HTML extractors. Each fixture is a
+// saved page (`<name>.html`) plus the expected result (`<name>.json`): the
+// page URL, what every strategy reported, and the merged VideoInfo (null for
+// pages with nothing downloadable, like deleted videos or login walls).
+//
+//   npm run test:fixtures                           check every fixture (also part of `npm test`)
+//   npm run test:fixtures -- mobile                 check fixtures whose name contains "mobile"
+//   npm run fixtures:record -- page.html name URL   save a page and its current output
+//   npm run fixtures:record -- --update name        re-record an existing fixture
+
+const FIXTURE_DIR = path.resolve("fixtures/extractors");
+
+// Ranking rules are configurable; fixtures are recorded against the defaults.
+const RANKING_ENV = ["KUAISHOU_SOURCE_RANKING", "KUAISHOU_PREFERRED_HOSTS", "KUAISHOU_PREFERRED_CODEC"];
+
+interface StrategyReport {
+  name: string;
+  confidence: number;
+  fields: string[];
+}
+
+interface Fixture {
+  url: string;
+  strategies: StrategyReport[];
+  videoInfo: unknown;
+}
+
+function extract(html: string, url: string): Fixture {
+  const results = runExtractors({ html, url });
+  const outcome = buildOutcome(results);
+  return {
+    url,
+    strategies: results.map((result) => ({
+      name: result.name,
+      confidence: result.confidence,
+      fields: Object.keys(result.fields).filter((key) => result.fields[key as keyof typeof result.fields] !== undefined).sort(),
+    })),
+    // Round-trip through JSON so undefined fields compare the same as in the saved file.
+    videoInfo: JSON.parse(JSON.stringify(outcome?.videoInfo ?? null)),
+  };
+}
+
+/** Paths where `actual` differs from `expected`, e.g. `videoInfo.stats.likes`. */
+function diff(expected: unknown, actual: unknown, at: string, out: string[]): string[] {
+  if (typeof expected !== "object" || expected === null || typeof actual !== "object" || actual === null) {
+    if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+      out.push(`${at}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+    return out;
+  }
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  for (const key of Array.from(keys)) {
+    diff((expected as Record<string, unknown>)[key], (actual as Record<string, unknown>)[key], `${at}.${key}`, out);
+  }
+  return out;
+}
+
+async function fixtureNames(filter?: string): Promise<string[]> {
+  const files = await readdir(FIXTURE_DIR);
+  return files
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.slice(0, -".json".length))
+    .filter((name) => !filter || name.includes(filter))
+    .sort();
+}
+
+async function runAll(filter?: string): Promise<boolean> {
+  const names = await fixtureNames(filter);
+  if (names.length === 0) {
+    console.error(filter ? `No fixtures match "${filter}"` : "No fixtures found");
+    return false;
+  }
+
+  let failures = 0;
+  for (const name of names) {
+    const expected: Fixture = JSON.parse(await readFile(path.join(FIXTURE_DIR, `${name}.json`), "utf-8"));
+    const html = await readFile(path.join(FIXTURE_DIR, `${name}.html`), "utf-8");
+    const problems = diff(expected, extract(html, expected.url), name, []);
+    if (problems.length === 0) {
+      console.log(`ok   ${name}`);
+      continue;
+    }
+    failures++;
+    console.log(`FAIL ${name}`);
+    for (const problem of problems) console.log(`       ${problem}`);
+  }
+
+  console.log(`\n${names.length - failures}/${names.length} fixtures passed`);
+  return failures === 0;
+}
+
+async function record(name: string, url: string, htmlFile?: string): Promise<void> {
+  if (!/^[a-z0-9-]+$/.test(name)) {
+    throw new Error("Fixture names are lowercase letters, digits and dashes");
+  }
+  const htmlPath = path.join(FIXTURE_DIR, `${name}.html`);
+  if (htmlFile) {
+    if (existsSync(htmlPath)) {
+      throw new Error(`Fixture ${name} already exists; use --update to re-record it`);
+    }
+    await copyFile(htmlFile, htmlPath);
+  }
+
+  const fixture = extract(await readFile(htmlPath, "utf-8"), url);
+  await writeFile(path.join(FIXTURE_DIR, `${name}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+  console.log(`recorded ${name}: ${fixture.strategies.map((strategy) => strategy.name).join(", ") || "no strategies"}`);
+  console.log(fixture.videoInfo ? `  -> ${(fixture.videoInfo as { title: string }).title}` : "  -> nothing downloadable");
+}
+
+async function main() {
+  for (const key of RANKING_ENV) delete process.env[key];
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === "record") {
+    if (args[0] === "--update") {
+      const name = args[1];
+      const existing: Fixture = JSON.parse(await readFile(path.join(FIXTURE_DIR, `${name}.json`), "utf-8"));
+      await record(name, existing.url);
+      return;
+    }
+    const [htmlFile, name, url] = args;
+    if (!htmlFile || !name || !url) {
+      throw new Error("Usage: fixtures record <page.html> <name> <page url>");
+    }
+    await record(name, url, htmlFile);
+    return;
+  }
+
+  if (!(await runAll(command))) {
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+import { after, before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { readGraphqlRequest, startStubServer, type StubServer } from "./stub-server";
+
+let comments: typeof import("./comments");
+let stub: StubServer;
+let operations: Array<{ operationName: string; variables: Record<string, string> }> = [];
+/** Root comment pages by pcursor. */
+let rootsPerPage: Record<string, { roots: object[]; pcursor: string }> = {};
+
+function comment(id: string, extra: object = {}) {
+  return { commentId: id, authorId: `u-${id}`, authorName: `User ${id}`, content: `Text ${id}`, timestamp: 1700000000000, likedCount: "1", ...extra };
+}
+
+const REPLY_PAGES: Record<string, { subComments: object[]; pcursor: string }> = {
+  s2: { subComments: [comment("r2"), comment("r1")], pcursor: "s3" },
+  s3: { subComments: [comment("r3", { replyToUserName: "User r2" })], pcursor: "no_more" },
+};
+
+/** Replies for threads whose id starts with "endless" never run out of pages. */
+function answer(operationName: string, variables: Record<string, string>): object {
+  if (operationName === "commentListQuery") {
+    const page = rootsPerPage[variables.pcursor];
+    return { visionCommentList: { commentCount: 42, pcursor: page.pcursor, rootComments: page.roots } };
+  }
+  if (variables.rootCommentId.startsWith("endless")) {
+    return { visionSubCommentList: { pcursor: `${variables.pcursor}+`, subComments: [comment(`${variables.rootCommentId}-${variables.pcursor}`)] } };
+  }
+  return { visionSubCommentList: REPLY_PAGES[variables.pcursor] };
+}
+
+before(async () => {
+  stub = await startStubServer(async (req, res) => {
+    if (req.method === "POST" && req.url === "/graphql") {
+      const body = await readGraphqlRequest(req);
+      operations.push({ operationName: body.operationName, variables: body.variables });
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ data: answer(body.operationName, body.variables) }));
+    } else {
+      res.setHeader("Content-Type", "text/html");
+      res.end("<html><head><title>Nothing here</title></head></html>");
+    }
+  });
+  // graphql.ts reads these when it loads.
+  process.env.KUAISHOU_GRAPHQL_URL = `${stub.url}/graphql`;
+  process.env.KUAISHOU_COOKIE = "did=test";
+  comments = await import("./comments");
+});
+
+after(() => stub.close());
+
+beforeEach(() => {
+  operations = [];
+  rootsPerPage = {
+    "": { roots: [comment("c1", { subCommentCount: 3, subComments: [comment("r1")], subCommentsPcursor: "s2" }), comment("c2")], pcursor: "p2" },
+    p2: { roots: [comment("c3")], pcursor: "no_more" },
+  };
+});
+
+test("pages through root comments and expands reply pages without duplicates", async () => {
+  const listing = await comments.listComments("3xabc", { maxCount: 100, includeReplies: true });
+
+  assert.equal(listing.commentCount, 42);
+  assert.equal(listing.hasMore, false);
+  assert.deepEqual(listing.comments.map((thread) => thread.id), ["c1", "c2", "c3"]);
+  const [first] = listing.comments;
+  assert.equal(first.replyCount, 3);
+  assert.deepEqual(first.replies.map((reply) => reply.id), ["r1", "r2", "r3"]);
+  assert.ok(first.replies.every((reply) => reply.parentId === "c1"));
+  assert.equal(first.replies[2].replyToName, "User r2");
+  assert.equal(first.publishedAt, new Date(1700000000000).toISOString());
+
+  assert.deepEqual(operations.map(({ operationName, variables }) => `${operationName}:${variables.pcursor}`), [
+    "commentListQuery:",
+    "visionSubCommentList:s2",
+    "visionSubCommentList:s3",
+    "commentListQuery:p2",
+  ]);
+});
+
+test("stops at maxCount and reports that more comments exist", async () => {
+  const listing = await comments.listComments("3xabc", { maxCount: 2, includeReplies: false });
+
+  assert.deepEqual(listing.comments.map((thread) => thread.id), ["c1", "c2"]);
+  assert.equal(listing.hasMore, true);
+  assert.deepEqual(listing.comments[0].replies, []);
+  assert.deepEqual(operations.map(({ operationName }) => operationName), ["commentListQuery"]);
+});
+
+test("bounds reply pages per thread and across the whole listing", async () => {
+  const endless = Array.from({ length: 15 }, (_, index) => comment(`endless${index}`, { subCommentsPcursor: "a" }));
+  rootsPerPage = { "": { roots: endless, pcursor: "no_more" } };
+
+  const listing = await comments.listComments("3xabc", { maxCount: 100, includeReplies: true });
+
+  const replyRequests = operations.filter(({ operationName }) => operationName === "visionSubCommentList");
+  assert.equal(listing.comments[0].replies.length, 20, "one thread stops after 20 reply pages");
+  assert.equal(replyRequests.length, 200, "the listing stops after 200 reply pages in total");
+  assert.equal(listing.comments.length, 15);
+  assert.deepEqual(listing.comments[14].replies, []);
+});
+
+test("rejects URLs that name no Kuaishou video with a CommentTargetError", async () => {
+  await assert.rejects(comments.resolveCommentTarget(`${stub.url}/not-a-video`), comments.CommentTargetError);
+  await assert.rejects(comments.resolveCommentTarget("https://www.kwai.com/@someone/video/5195550911829374512"), {
+    name: "CommentTargetError",
+    message: "Comments are only available for Kuaishou videos",
+  });
+});
+
+test("CSV export quotes user text that spreadsheets would run as a formula", async () => {
+  const listing = await comments.listComments("3xabc", { maxCount: 1, includeReplies: false });
+  listing.comments[0].content = "=HYPERLINK(\"https://evil.example\",\"click\")";
+  listing.comments[0].authorName = "@admin";
+
+  const [, row] = comments.commentsToCsv(listing.comments).split("\r\n");
+  assert.equal(row, `c1,,u-c1,'@admin,"'=HYPERLINK(""https://evil.example"",""click"")",1,${new Date(1700000000000).toISOString()},,`);
+});
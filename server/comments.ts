@@ -0,0 +1,239 @@
+import type { CommentThread, VideoComment, VideoId } from "@shared/schema";
+import { shortVideoUrl } from "@shared/video-id";
+import { extractVideoInfo } from "./extractors";
+import { fetchWithRedirects } from "./fetcher";
+import { queryGraphql } from "./graphql";
+import { absoluteUrl, asString, parseCount, toIsoTimestamp, type StateObject } from "./page-state";
+import { resolveVideoId } from "./video-id";
+
+const MAX_PAGES = 100;
+const MAX_REPLY_PAGES = 20;
+/** Reply pages fetched per listing across all threads; past it, threads keep only their inline replies. */
+const MAX_REPLY_REQUESTS = 200;
+/** Past this, the listing stops and returns what it has with hasMore set. */
+const LISTING_TIMEOUT_MS = 60 * 1000;
+
+/** The URL names no Kuaishou video, so there is nothing to list comments for. */
+export class CommentTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommentTargetError";
+  }
+}
+
+const COMMENT_FIELDS = `
+  commentId
+  authorId
+  authorName
+  content
+  headurl
+  timestamp
+  likedCount
+  realLikedCount
+  replyToUserName
+`;
+
+const COMMENT_LIST_QUERY = `
+query commentListQuery($photoId: String, $pcursor: String) {
+  visionCommentList(photoId: $photoId, pcursor: $pcursor) {
+    commentCount
+    pcursor
+    rootComments {
+      ${COMMENT_FIELDS}
+      subCommentCount
+      subCommentsPcursor
+      subComments { ${COMMENT_FIELDS} }
+    }
+  }
+}`;
+
+const SUB_COMMENT_LIST_QUERY = `
+query visionSubCommentList($photoId: String, $rootCommentId: String, $pcursor: String) {
+  visionSubCommentList(photoId: $photoId, rootCommentId: $rootCommentId, pcursor: $pcursor) {
+    pcursor
+    subComments { ${COMMENT_FIELDS} }
+  }
+}`;
+
+interface CommentList {
+  visionCommentList: {
+    commentCount?: number;
+    pcursor: string;
+    rootComments: StateObject[] | null;
+  } | null;
+}
+
+interface SubCommentList {
+  visionSubCommentList: {
+    pcursor: string;
+    subComments: StateObject[] | null;
+  } | null;
+}
+
+export interface CommentListOptions {
+  maxCount: number;
+  includeReplies: boolean;
+}
+
+export interface CommentListing {
+  commentCount?: number;
+  comments: CommentThread[];
+  hasMore: boolean;
+}
+
+/** Shared by every request one listing makes. */
+interface ListingBudget {
+  signal: AbortSignal;
+  replyRequests: number;
+}
+
+function hasMorePages(pcursor: string | undefined): boolean {
+  return Boolean(pcursor) && pcursor !== "no_more";
+}
+
+function mapComment(raw: StateObject, parentId?: string): VideoComment {
+  const avatar = asString(raw.headurl);
+  return {
+    id: asString(raw.commentId),
+    authorId: asString(raw.authorId),
+    authorName: asString(raw.authorName),
+    authorAvatar: avatar ? absoluteUrl(avatar) : undefined,
+    content: asString(raw.content),
+    likes: parseCount(raw.realLikedCount) ?? parseCount(raw.likedCount),
+    publishedAt: toIsoTimestamp(raw.timestamp) || undefined,
+    parentId,
+    replyToName: asString(raw.replyToUserName) || undefined,
+  };
+}
+
+async function listReplies(photoId: string, root: StateObject, referer: string, budget: ListingBudget): Promise<VideoComment[]> {
+  const rootId = asString(root.commentId);
+  const replies = (Array.isArray(root.subComments) ? root.subComments as StateObject[] : []).map((reply) => mapComment(reply, rootId));
+  let pcursor = asString(root.subCommentsPcursor);
+
+  for (let page = 0; page < MAX_REPLY_PAGES && hasMorePages(pcursor); page++) {
+    if (budget.replyRequests >= MAX_REPLY_REQUESTS || budget.signal.aborted) break;
+    budget.replyRequests++;
+    let data: SubCommentList;
+    try {
+      data = await queryGraphql<SubCommentList>(
+        "visionSubCommentList",
+        SUB_COMMENT_LIST_QUERY,
+        { photoId, rootCommentId: rootId, pcursor },
+        referer,
+        budget.signal,
+      );
+    } catch (error) {
+      if (budget.signal.aborted) break;
+      throw error;
+    }
+    const list = data.visionSubCommentList;
+    if (!list) break;
+    for (const reply of list.subComments ?? []) {
+      const mapped = mapComment(reply, rootId);
+      if (!replies.some((existing) => existing.id === mapped.id)) replies.push(mapped);
+    }
+    pcursor = list.pcursor;
+  }
+
+  return replies;
+}
+
+/** The photo ID the comment API expects; mobile and short links need the page for it. */
+export async function resolveCommentTarget(url: string): Promise<VideoId> {
+  let videoId = await resolveVideoId(url).catch(() => null);
+  if (!videoId) {
+    const response = await fetchWithRedirects(url);
+    const extraction = extractVideoInfo({ html: await response.text(), url: response.url || url });
+    videoId = extraction?.videoInfo.videoId ?? null;
+  }
+  if (!videoId) {
+    throw new CommentTargetError("Could not determine the video ID for this URL");
+  }
+  if (videoId.platform !== "kuaishou") {
+    throw new CommentTargetError("Comments are only available for Kuaishou videos");
+  }
+  return videoId;
+}
+
+/**
+ * Pages through a video's root comments, expanding each one's replies. The
+ * listing as a whole is bounded by LISTING_TIMEOUT_MS and MAX_REPLY_REQUESTS;
+ * hitting the timeout returns the comments gathered so far.
+ */
+export async function listComments(photoId: string, options: CommentListOptions): Promise<CommentListing> {
+  const referer = shortVideoUrl(photoId);
+  const comments: CommentThread[] = [];
+  const budget: ListingBudget = { signal: AbortSignal.timeout(LISTING_TIMEOUT_MS), replyRequests: 0 };
+  let commentCount: number | undefined;
+  let pcursor = "";
+
+  for (let page = 0; page < MAX_PAGES && comments.length < options.maxCount && !budget.signal.aborted; page++) {
+    let data: CommentList;
+    try {
+      data = await queryGraphql<CommentList>("commentListQuery", COMMENT_LIST_QUERY, { photoId, pcursor }, referer, budget.signal);
+    } catch (error) {
+      if (budget.signal.aborted) break;
+      throw error;
+    }
+    const list = data.visionCommentList;
+    if (!list) {
+      throw new Error("Kuaishou refused the comment listing request");
+    }
+    commentCount = list.commentCount ?? commentCount;
+
+    for (const root of list.rootComments ?? []) {
+      const replies = options.includeReplies ? await listReplies(photoId, root, referer, budget) : [];
+      comments.push({
+        ...mapComment(root),
+        replyCount: parseCount(root.subCommentCount) ?? replies.length,
+        replies,
+      });
+      if (comments.length >= options.maxCount) break;
+    }
+
+    pcursor = list.pcursor;
+    if (!hasMorePages(pcursor)) {
+      return { commentCount, comments, hasMore: false };
+    }
+  }
+
+  return { commentCount, comments, hasMore: true };
+}
+
+/** Root comments followed by their replies, one row each. */
+function flattenThreads(threads: CommentThread[]): VideoComment[] {
+  return threads.flatMap(({ replies, replyCount, ...comment }) => [comment, ...replies]);
+}
+
+const CSV_COLUMNS: Array<keyof VideoComment> = [
+  "id",
+  "parentId",
+  "authorId",
+  "authorName",
+  "content",
+  "likes",
+  "publishedAt",
+  "replyToName",
+  "authorAvatar",
+];
+
+/** Leading characters that make Excel and Sheets evaluate a cell as a formula. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  let text = value === undefined || value === null ? "" : String(value);
+  // Comment text is user-written; a leading quote keeps it from running as a formula.
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function commentsToCsv(threads: CommentThread[]): string {
+  const rows = flattenThreads(threads).map((comment) => CSV_COLUMNS.map((column) => csvCell(comment[column])).join(","));
+  // Leading BOM so spreadsheet apps read the (mostly Chinese) text as UTF-8.
+  return `\uFEFF${[CSV_COLUMNS.join(","), ...rows].join("\r\n")}\r\n`;
+}
+
+export function commentsToNdjson(threads: CommentThread[]): string {
+  return flattenThreads(threads).map((comment) => JSON.stringify(comment)).join("\n") + "\n";
+}
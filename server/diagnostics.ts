@@ -0,0 +1,126 @@
+import type { ExtractionDiagnostics, PageKind, RedirectHop, SourceCandidateReport, VideoInfo } from "@shared/schema";
+import { buildOutcome, describeExtractors, runExtractors, type NamedResult } from "./extractors";
+import { unescapeUrl } from "./extractors/utils";
+import { fetchWithRedirects } from "./fetcher";
+import { findPageStates } from "./page-state";
+import { decidingRule, withUrlAttributes, type SourceCandidate } from "./source-ranking";
+
+// Login pages load the captcha SDK too, so a bare "captcha" script URL is not enough.
+const CAPTCHA_MARKERS = /安全验证|滑块验证|请完成验证|captcha-(?:container|mask)|captchaSession|verify\.kuaishou/i;
+const LOGIN_MARKERS = /登录后查看|请先登录|login-panel|passport\.kuaishou\.com|log in to (?:continue|watch)/i;
+const DELETED_MARKERS = /作品已删除|已删除或不可见|作品不存在|视频不见了|has been (?:deleted|removed)|no longer available/i;
+
+const MEDIA_URL_PATTERN = /["'](https?:(?:\\?\/){2}[^"'\s]+?\.(?:mp4|m3u8)(?:\?[^"'\s]*)?)["']/gi;
+
+function detectPageKind(html: string, videoInfo: VideoInfo | undefined): PageKind {
+  if (videoInfo) return videoInfo.postType === "atlas" ? "atlas" : "video";
+  if (CAPTCHA_MARKERS.test(html)) return "captcha";
+  if (LOGIN_MARKERS.test(html)) return "login-wall";
+  if (DELETED_MARKERS.test(html)) return "deleted";
+  return "unknown";
+}
+
+/** Media-looking URLs anywhere in the markup, including ones no strategy picked up. */
+function markupMediaUrls(html: string): string[] {
+  const urls: string[] = [];
+  const pattern = new RegExp(MEDIA_URL_PATTERN.source, MEDIA_URL_PATTERN.flags);
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    const url = unescapeUrl(match[1]);
+    if (!urls.includes(url)) urls.push(url);
+  }
+  return urls;
+}
+
+function collectCandidates(results: NamedResult[], html: string): Map<string, { candidate: SourceCandidate; foundBy: string[] }> {
+  const candidates = new Map<string, { candidate: SourceCandidate; foundBy: string[] }>();
+  const add = (candidate: SourceCandidate, foundBy: string) => {
+    const existing = candidates.get(candidate.url);
+    if (existing) {
+      if (!existing.foundBy.includes(foundBy)) existing.foundBy.push(foundBy);
+      // A bare URL seen first gains the attributes of a variant reporting the same URL.
+      if (existing.candidate.watermark === undefined && candidate.watermark !== undefined) {
+        existing.candidate = withUrlAttributes(candidate);
+      }
+      return;
+    }
+    candidates.set(candidate.url, { candidate: withUrlAttributes(candidate), foundBy: [foundBy] });
+  };
+
+  for (const result of results) {
+    for (const variant of result.fields.variants ?? []) add(variant, result.name);
+    if (result.fields.videoUrl) {
+      add({ url: result.fields.videoUrl, resolution: result.fields.quality || "", codec: "unknown" }, result.name);
+    }
+  }
+  for (const url of markupMediaUrls(html)) {
+    add({ url, resolution: "", codec: "unknown" }, "markup");
+  }
+  return candidates;
+}
+
+function rejectionReason(candidate: SourceCandidate, foundBy: string[], chosen: SourceCandidate | undefined, videoInfo: VideoInfo | undefined): string | undefined {
+  if (!videoInfo) return "No strategy produced a downloadable result";
+  if (videoInfo.postType === "atlas") return "Post is an image atlas; video URLs are ignored";
+  if (/poster|cover/i.test(candidate.url)) return "Looks like a cover or poster image";
+  if (foundBy.length === 1 && foundBy[0] === "markup") return "Only seen in raw markup; no strategy reported it";
+  if (!chosen) return "Not considered";
+  const rule = decidingRule(chosen, candidate);
+  return rule ? `Ranked below the chosen source by the "${rule}" rule` : "Outranked by a more confident strategy";
+}
+
+/**
+ * Runs the HTML extraction pipeline on one URL and reports everything it saw:
+ * redirects, response, page kind, which strategies matched and why each
+ * candidate URL was or was not chosen. Does not use or fill the video cache.
+ */
+export async function diagnoseExtraction(url: string): Promise<ExtractionDiagnostics> {
+  const redirects: RedirectHop[] = [];
+  const response = await fetchWithRedirects(url, undefined, undefined, redirects);
+  const html = await response.text();
+  const finalUrl = redirects.length > 0 ? redirects[redirects.length - 1].url : url;
+
+  const results = runExtractors({ html, url: finalUrl });
+  const videoInfo = buildOutcome(results)?.videoInfo;
+  const matched = new Map(results.map((result) => [result.name, result]));
+
+  const candidates = collectCandidates(results, html);
+  const chosen = videoInfo?.videoUrl ? candidates.get(videoInfo.videoUrl)?.candidate : undefined;
+  const reports: SourceCandidateReport[] = Array.from(candidates.values()).map(({ candidate, foundBy }) => {
+    const isChosen = candidate === chosen;
+    return {
+      url: candidate.url,
+      foundBy,
+      watermark: candidate.watermark,
+      resolution: candidate.resolution || undefined,
+      codec: candidate.codec,
+      host: candidate.host,
+      expiresAt: candidate.expiresAt,
+      chosen: isChosen,
+      rejection: isChosen ? undefined : rejectionReason(candidate, foundBy, chosen, videoInfo),
+    };
+  });
+
+  return {
+    requestedUrl: url,
+    finalUrl,
+    redirects,
+    status: response.status,
+    contentType: response.headers.get("content-type") || "",
+    htmlLength: html.length,
+    pageKind: detectPageKind(html, videoInfo),
+    pageStates: Array.from(new Set(findPageStates(html).map((state) => state.source))),
+    strategies: describeExtractors(finalUrl).map(({ name, applies }) => {
+      const result = matched.get(name);
+      return {
+        name,
+        applies,
+        matched: Boolean(result),
+        confidence: result?.confidence,
+        fields: result ? Object.keys(result.fields).filter((key) => result.fields[key as keyof VideoInfo] !== undefined) : [],
+      };
+    }),
+    candidates: reports,
+    videoInfo,
+  };
+}
@@ -0,0 +1,17 @@
+import type { Extractor } from "./types";
+import { buildApolloIndex, findPageStates, findPhotoObject, mapPhotoToVideoInfo } from "../page-state";
+
+export const embeddedStateExtractor: Extractor = {
+  name: "embedded-state",
+  extract({ html }) {
+    for (const state of findPageStates(html)) {
+      const photo = findPhotoObject(state.data);
+      if (!photo) continue;
+      const fields = mapPhotoToVideoInfo(photo, buildApolloIndex(state.data));
+      if (fields.videoUrl || fields.images) {
+        return { fields, confidence: 0.9 };
+      }
+    }
+    return null;
+  },
+};
@@ -0,0 +1,52 @@
+import { shortVideoUrl } from "@shared/video-id";
+import type { NamedResult } from "./index";
+import { AUTHOR_FIELDS, PHOTO_FIELDS, queryGraphql } from "../graphql";
+import { isStateObject, mapPhotoToVideoInfo, type StateObject } from "../page-state";
+
+const VIDEO_DETAIL_QUERY = `
+query visionVideoDetail($photoId: String, $type: String, $page: String, $webPageArea: String) {
+  visionVideoDetail(photoId: $photoId, type: $type, page: $page, webPageArea: $webPageArea) {
+    status
+    type
+    author { ${AUTHOR_FIELDS} }
+    photo { ${PHOTO_FIELDS} }
+    tags { type name }
+  }
+}`;
+
+interface VideoDetail {
+  visionVideoDetail: {
+    status?: number;
+    author?: StateObject | null;
+    photo?: StateObject | null;
+    tags?: StateObject[] | null;
+  } | null;
+}
+
+/**
+ * Asks the desktop site's GraphQL endpoint for a photo's details. This is the
+ * same data the page's __APOLLO_STATE__ is hydrated from, so it survives
+ * layout changes that break HTML scraping. Null when the photo is unavailable.
+ */
+export async function extractViaGraphql(photoId: string): Promise<NamedResult | null> {
+  const data = await queryGraphql<VideoDetail>(
+    "visionVideoDetail",
+    VIDEO_DETAIL_QUERY,
+    { photoId, page: "detail" },
+    shortVideoUrl(photoId),
+  );
+
+  const detail = data.visionVideoDetail;
+  if (!detail || !isStateObject(detail.photo)) {
+    return null;
+  }
+
+  const fields = mapPhotoToVideoInfo(
+    { ...detail.photo, author: detail.author ?? undefined, tags: detail.photo.tags ?? detail.tags ?? undefined },
+    new Map(),
+  );
+  if (!fields.videoUrl && !fields.images) {
+    return null;
+  }
+  return { name: "graphql", fields, confidence: 0.9 };
+}
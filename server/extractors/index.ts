@@ -0,0 +1,185 @@
+import type { ExtractionDebug, VideoInfo } from "@shared/schema";
+import type { ExtractionContext, Extractor, ExtractorResult } from "./types";
+import { rankSources, type SourceCandidate } from "../source-ranking";
+import { embeddedStateExtractor } from "./embedded-state";
+import { jsonLdExtractor } from "./json-ld";
+import { kwaiExtractor } from "./kwai";
+import { mobileExtractor } from "./mobile";
+import { openGraphExtractor } from "./opengraph";
+import { regexFallbackExtractor } from "./regex-fallback";
+
+export type { ExtractionContext, Extractor, ExtractorResult } from "./types";
+
+const extractors: Extractor[] = [
+  kwaiExtractor,
+  mobileExtractor,
+  embeddedStateExtractor,
+  jsonLdExtractor,
+  openGraphExtractor,
+  regexFallbackExtractor,
+];
+
+export function registerExtractor(extractor: Extractor): void {
+  extractors.push(extractor);
+}
+
+/** Every registered strategy in run order, and whether it runs on `url`. */
+export function describeExtractors(url: string): Array<{ name: string; applies: boolean }> {
+  return extractors.map((extractor) => ({
+    name: extractor.name,
+    applies: !extractor.appliesTo || extractor.appliesTo(url),
+  }));
+}
+
+export interface ExtractionOutcome {
+  videoInfo: VideoInfo;
+  debug: ExtractionDebug;
+}
+
+export type NamedResult = ExtractorResult & { name: string };
+
+export function runExtractors(context: ExtractionContext): NamedResult[] {
+  const results: NamedResult[] = [];
+  for (const extractor of extractors) {
+    if (extractor.appliesTo && !extractor.appliesTo(context.url)) {
+      continue;
+    }
+    try {
+      const result = extractor.extract(context);
+      if (result) {
+        results.push({ name: extractor.name, ...result });
+      }
+    } catch (error) {
+      console.error(`Extractor ${extractor.name} failed:`, error);
+    }
+  }
+  return results;
+}
+
+/**
+ * Merges partial results field by field, taking each field from the most
+ * confident strategy that supplied it.
+ */
+function mergeResults(results: NamedResult[]): { fields: Partial<VideoInfo>; fieldSources: Record<string, string> } {
+  const fields: Partial<VideoInfo> = {};
+  const fieldSources: Record<string, string> = {};
+  const ranked = [...results].sort((a, b) => b.confidence - a.confidence);
+
+  for (const result of ranked) {
+    for (const [key, value] of Object.entries(result.fields)) {
+      if (value === undefined || value === "" || key in fields) continue;
+      Object.assign(fields, { [key]: value });
+      fieldSources[key] = result.name;
+    }
+  }
+
+  return { fields, fieldSources };
+}
+
+/** Strategies this unsure guess URLs from raw markup, where they may belong to another video on the page. */
+const GUESSED_SOURCE_CONFIDENCE = 0.2;
+
+/**
+ * Re-picks videoUrl from every strategy's variants plus the merged URL, so a
+ * clean stream found by a weaker strategy still beats a watermarked one.
+ * Guessed streams only take part when no surer strategy found the video.
+ */
+function selectSource(results: NamedResult[], fields: Partial<VideoInfo>, fieldSources: Record<string, string>): void {
+  const sure = results.filter((result) => result.confidence > GUESSED_SOURCE_CONFIDENCE);
+  const trusted = sure.some((result) => result.fields.videoUrl) ? sure : results;
+  const ranked = [...trusted].sort((a, b) => b.confidence - a.confidence);
+  const sourceOf = new Map<string, string>();
+  for (const result of ranked) {
+    for (const variant of result.fields.variants ?? []) {
+      if (!sourceOf.has(variant.url)) sourceOf.set(variant.url, result.name);
+    }
+  }
+  const variants = rankSources(ranked.flatMap((result) => result.fields.variants ?? []));
+  const candidates: SourceCandidate[] = [...variants];
+
+  if (fields.videoUrl && !sourceOf.has(fields.videoUrl)) {
+    candidates.push({ url: fields.videoUrl, resolution: fields.quality || "", codec: "unknown" });
+    sourceOf.set(fields.videoUrl, fieldSources.videoUrl);
+  }
+  const best = rankSources(candidates)[0];
+  if (!best) return;
+
+  fields.videoUrl = best.url;
+  fieldSources.videoUrl = sourceOf.get(best.url) || fieldSources.videoUrl;
+  if (best.resolution) fields.quality = best.resolution;
+  fields.watermark = best.watermark;
+  if (variants.length > 0) {
+    fields.variants = variants;
+  } else if (fields.variants) {
+    // Merged from a guessing strategy that was left out above.
+    delete fields.variants;
+    delete fieldSources.variants;
+  }
+}
+
+/** Fills schema defaults; null when there is nothing downloadable. */
+export function buildVideoInfo(fields: Partial<VideoInfo>): VideoInfo | null {
+  if (!fields.videoUrl && !fields.images?.length) {
+    return null;
+  }
+
+  return {
+    title: fields.title || "Kuaishou Video",
+    author: fields.authorInfo?.name || fields.author || "Unknown",
+    thumbnail: fields.thumbnail || fields.images?.[0]?.url || "",
+    videoUrl: fields.videoUrl || "",
+    audioUrl: fields.audioUrl,
+    duration: fields.duration,
+    quality: fields.quality,
+    fileSize: fields.fileSize || "",
+    variants: fields.variants,
+    watermark: fields.watermark,
+    postType: fields.postType || "video",
+    images: fields.images,
+    locale: fields.locale,
+    videoId: fields.videoId,
+    photoId: fields.videoId?.photoId,
+    description: fields.description,
+    hashtags: fields.hashtags,
+    mentions: fields.mentions,
+    soundtrack: fields.soundtrack,
+    publishedAt: fields.publishedAt,
+    stats: fields.stats,
+    authorInfo: fields.authorInfo,
+  };
+}
+
+/** Merges strategy results into a VideoInfo; null when nothing downloadable was found. */
+export function buildOutcome(results: NamedResult[]): ExtractionOutcome | null {
+  const { fields, fieldSources } = mergeResults(results);
+
+  // An atlas has no video; any video URL here was scraped by a weaker strategy.
+  if (fields.postType === "atlas") {
+    delete fields.videoUrl;
+    delete fieldSources.videoUrl;
+  } else {
+    selectSource(results, fields, fieldSources);
+  }
+
+  const videoInfo = buildVideoInfo(fields);
+  if (!videoInfo) {
+    return null;
+  }
+
+  return {
+    videoInfo,
+    debug: {
+      strategy: fieldSources.videoUrl || fieldSources.images,
+      fieldSources,
+      strategies: results.map((result) => ({
+        name: result.name,
+        confidence: result.confidence,
+        fields: Object.keys(result.fields),
+      })),
+    },
+  };
+}
+
+export function extractVideoInfo(context: ExtractionContext): ExtractionOutcome | null {
+  return buildOutcome(runExtractors(context));
+}
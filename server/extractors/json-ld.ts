@@ -0,0 +1,80 @@
+import type { VideoInfo, VideoStats } from "@shared/schema";
+import type { Extractor } from "./types";
+import { asString, firstUrl, isStateObject, mapCaption, parseCount, toIsoTimestamp, type StateObject } from "../page-state";
+
+const INTERACTION_TYPES: Record<string, keyof VideoStats> = {
+  WatchAction: "views",
+  LikeAction: "likes",
+  CommentAction: "comments",
+  ShareAction: "shares",
+};
+
+function collectNodes(json: unknown): StateObject[] {
+  if (Array.isArray(json)) return json.flatMap(collectNodes);
+  if (!isStateObject(json)) return [];
+  if (Array.isArray(json["@graph"])) return collectNodes(json["@graph"]);
+  return [json];
+}
+
+export function readJsonLdNodes(html: string): StateObject[] {
+  const nodes: StateObject[] = [];
+  const scriptPattern = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let scriptMatch;
+
+  while ((scriptMatch = scriptPattern.exec(html)) !== null) {
+    try {
+      nodes.push(...collectNodes(JSON.parse(scriptMatch[1])));
+    } catch {
+    }
+  }
+
+  return nodes;
+}
+
+/** `interactionStatistic` counters; the type may be a bare name, a schema.org URL or a typed node. */
+function mapInteractionStatistics(value: unknown): VideoStats | undefined {
+  const counters = Array.isArray(value) ? value : [value];
+  const stats: VideoStats = {};
+  for (const counter of counters) {
+    if (!isStateObject(counter)) continue;
+    const type = isStateObject(counter.interactionType) ? asString(counter.interactionType["@type"]) : asString(counter.interactionType);
+    const field = INTERACTION_TYPES[type.split("/").pop() || ""];
+    const count = parseCount(counter.userInteractionCount);
+    if (field && count !== undefined) stats[field] = count;
+  }
+  return Object.keys(stats).length > 0 ? stats : undefined;
+}
+
+export const jsonLdExtractor: Extractor = {
+  name: "json-ld",
+  extract({ html }) {
+    const fields: Partial<VideoInfo> = {};
+
+    for (const node of readJsonLdNodes(html)) {
+      const contentUrl = firstUrl(node.contentUrl);
+      if (contentUrl) fields.videoUrl = fields.videoUrl || contentUrl;
+      const thumbnail = firstUrl(node.thumbnailUrl);
+      if (thumbnail) fields.thumbnail = fields.thumbnail || thumbnail;
+      const name = asString(node.name).trim();
+      if (name) fields.title = fields.title || name;
+      const author = isStateObject(node.author) ? asString(node.author.name).trim() : asString(node.author).trim();
+      if (author) fields.author = fields.author || author;
+      if (author && isStateObject(node.author) && !fields.authorInfo) {
+        fields.authorInfo = {
+          name: author,
+          avatar: firstUrl(node.author.image) || undefined,
+          profileUrl: firstUrl(node.author.url) || undefined,
+        };
+      }
+      const description = asString(node.description);
+      if (description && !fields.description) Object.assign(fields, mapCaption(description));
+      const publishedAt = toIsoTimestamp(node.uploadDate);
+      if (publishedAt) fields.publishedAt = fields.publishedAt || publishedAt;
+      const stats = mapInteractionStatistics(node.interactionStatistic);
+      if (stats) fields.stats = fields.stats || stats;
+    }
+
+    if (Object.keys(fields).length === 0) return null;
+    return { fields, confidence: 0.7 };
+  },
+};
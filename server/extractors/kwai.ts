@@ -0,0 +1,179 @@
+import type { VideoInfo } from "@shared/schema";
+import { KWAI_HOST } from "@shared/video-id";
+import type { Extractor } from "./types";
+import { readJsonLdNodes } from "./json-ld";
+import { matchMetaContent, unescapeUrl } from "./utils";
+import {
+  absoluteUrl,
+  asString,
+  findPageStates,
+  firstUrl,
+  formatDuration,
+  isStateObject,
+  mapAuthorInfo,
+  mapCaption,
+  mapSoundtrack,
+  mapStats,
+  toIsoTimestamp,
+  walkObjects,
+  type StateObject,
+} from "../page-state";
+
+// Page titles end with the site name, "… - Kwai" or "… | Kwai …".
+const KWAI_TITLE_SUFFIX = /\s*[-|·]\s*Kwai\b.*/i;
+// og:title also ends with a localized "on Kwai": "on Kwai", "no Kwai", "en Kwai", "di Kwai", ...
+// Captions are left alone, since "I love Kwai" is a real ending there.
+const KWAI_SHARE_SUFFIX = /\s+\S{1,4}\s+Kwai\s*$/i;
+
+export function isKwaiUrl(url: string): boolean {
+  try {
+    return KWAI_HOST.test(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+function cleanKwaiTitle(title: string): string {
+  return title.replace(KWAI_TITLE_SUFFIX, "").trim();
+}
+
+function cleanShareTitle(title: string): string {
+  return cleanKwaiTitle(title).replace(KWAI_SHARE_SUFFIX, "").trim();
+}
+
+/** Kwai's feed objects use the app API's snake_case field names. */
+function findFeedObject(root: unknown): StateObject | null {
+  for (const object of walkObjects(root)) {
+    if (firstUrl(object.main_mv_urls) || firstUrl(object.mainMvUrls)) {
+      return object;
+    }
+  }
+  return null;
+}
+
+function mapFeed(feed: StateObject): Partial<VideoInfo> {
+  const fields: Partial<VideoInfo> = {};
+
+  const videoUrl = firstUrl(feed.main_mv_urls) || firstUrl(feed.mainMvUrls);
+  if (videoUrl) fields.videoUrl = absoluteUrl(videoUrl);
+
+  const title = cleanKwaiTitle(asString(feed.caption) || asString(feed.title));
+  if (title) fields.title = title;
+  Object.assign(fields, mapCaption(asString(feed.caption), feed.tags ?? feed.tag_list));
+
+  const user = isStateObject(feed.user) ? feed.user : feed;
+  const author = asString(user.user_name) || asString(user.userName) || asString(user.kwai_id) || asString(user.kwaiId);
+  if (author) fields.author = author.trim();
+  // A feed without a nested user carries the user_* keys itself; its own `id` is the photo's.
+  const authorInfo = mapAuthorInfo(user === feed ? { ...feed, id: undefined } : user, "kwai");
+  if (authorInfo) fields.authorInfo = authorInfo;
+
+  const thumbnail = firstUrl(feed.cover_thumbnail_urls) || firstUrl(feed.cover_urls) || firstUrl(feed.coverUrls);
+  if (thumbnail) fields.thumbnail = absoluteUrl(thumbnail);
+
+  const soundTrack = isStateObject(feed.music) ? feed.music : isStateObject(feed.soundTrack) ? feed.soundTrack : null;
+  const audioUrl = soundTrack ? firstUrl(soundTrack.audioUrls) || firstUrl(soundTrack.audio_urls) || firstUrl(soundTrack.url) : "";
+  if (audioUrl) fields.audioUrl = absoluteUrl(audioUrl);
+  const music = mapSoundtrack(soundTrack);
+  if (music) fields.soundtrack = music;
+
+  if (typeof feed.duration === "number" && feed.duration > 0) {
+    fields.duration = formatDuration(feed.duration);
+  }
+
+  const publishedAt = toIsoTimestamp(feed.timestamp ?? feed.create_time);
+  if (publishedAt) fields.publishedAt = publishedAt;
+
+  const stats = mapStats(feed);
+  if (stats) fields.stats = stats;
+
+  const photoId = asString(feed.photo_id) || asString(feed.photoId);
+  if (photoId) fields.videoId = { platform: "kwai", photoId };
+
+  return fields;
+}
+
+/** ISO-8601 durations such as `PT1M5S`, as used by JSON-LD VideoObject. */
+function parseIsoDuration(value: string): number {
+  const match = value.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/);
+  if (!match) return 0;
+  return ((Number(match[1] || 0) * 60 + Number(match[2] || 0)) * 60 + Number(match[3] || 0)) * 1000;
+}
+
+function mapVideoObject(node: StateObject): Partial<VideoInfo> {
+  const fields: Partial<VideoInfo> = {};
+
+  const videoUrl = firstUrl(node.contentUrl);
+  if (videoUrl) fields.videoUrl = videoUrl;
+
+  const title = cleanKwaiTitle(asString(node.description) || asString(node.name));
+  if (title) fields.title = title;
+  Object.assign(fields, mapCaption(asString(node.description)));
+
+  const creator = [node.creator, node.author].find(isStateObject);
+  const author = creator ? asString(creator.name) || asString(creator.alternateName) : "";
+  if (author) fields.author = author.replace(/^@/, "").trim();
+  if (creator && fields.author) {
+    fields.authorInfo = {
+      name: fields.author,
+      avatar: firstUrl(creator.image) || undefined,
+      profileUrl: firstUrl(creator.url) || undefined,
+    };
+  }
+
+  const thumbnail = firstUrl(node.thumbnailUrl);
+  if (thumbnail) fields.thumbnail = thumbnail;
+
+  const duration = parseIsoDuration(asString(node.duration));
+  if (duration > 0) fields.duration = formatDuration(duration);
+
+  const publishedAt = toIsoTimestamp(node.uploadDate);
+  if (publishedAt) fields.publishedAt = publishedAt;
+
+  return fields;
+}
+
+function detectLocale(html: string): string {
+  const ogLocale = matchMetaContent(html, "og:locale");
+  if (ogLocale) return ogLocale.replace("_", "-");
+  const langMatch = html.match(/<html[^>]*\slang=["']([^"']+)["']/i);
+  return langMatch ? langMatch[1] : "";
+}
+
+export const kwaiExtractor: Extractor = {
+  name: "kwai",
+  appliesTo: isKwaiUrl,
+  extract({ html }) {
+    const fields: Partial<VideoInfo> = {};
+
+    for (const state of findPageStates(html)) {
+      const feed = findFeedObject(state.data);
+      if (feed) {
+        Object.assign(fields, mapFeed(feed));
+        break;
+      }
+    }
+
+    const videoObject = readJsonLdNodes(html).find((node) => node["@type"] === "VideoObject");
+    if (videoObject) {
+      for (const [key, value] of Object.entries(mapVideoObject(videoObject))) {
+        if (!(key in fields)) Object.assign(fields, { [key]: value });
+      }
+    }
+
+    if (!fields.title) {
+      const ogTitle = cleanShareTitle(matchMetaContent(html, "og:title"));
+      if (ogTitle) fields.title = ogTitle;
+    }
+    if (!fields.videoUrl) {
+      const ogVideo = matchMetaContent(html, "og:video:secure_url") || matchMetaContent(html, "og:video");
+      if (ogVideo) fields.videoUrl = unescapeUrl(ogVideo);
+    }
+
+    const locale = detectLocale(html);
+    if (locale) fields.locale = locale;
+
+    if (!fields.videoUrl) return null;
+    return { fields, confidence: 0.95 };
+  },
+};
@@ -0,0 +1,93 @@
+import type { Extractor } from "./types";
+import {
+  asString,
+  buildApolloIndex,
+  findPageStates,
+  findPhotoObject,
+  isStateObject,
+  mapAuthorInfo,
+  mapPhotoToVideoInfo,
+  walkObjects,
+  type StateObject,
+} from "../page-state";
+
+const MOBILE_HOST = /(^|\.)(gifshow\.com|chenzhongtech\.com)$|^(m|c)\.kuaishou\.com$/i;
+
+export function isMobileUrl(url: string): boolean {
+  try {
+    return MOBILE_HOST.test(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The mobile share page keys its INIT_STATE by obfuscated hashes and
+ * sometimes stores each entry as a JSON string rather than an object.
+ */
+function decodeNestedJson(value: unknown, depth = 0): unknown {
+  if (depth > 8) return value;
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (!/^[{[]/.test(trimmed)) return value;
+    try {
+      return decodeNestedJson(JSON.parse(trimmed), depth + 1);
+    } catch {
+      return value;
+    }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => decodeNestedJson(item, depth + 1));
+  }
+  if (isStateObject(value)) {
+    const decoded: StateObject = {};
+    for (const [key, item] of Object.entries(value)) {
+      decoded[key] = decodeNestedJson(item, depth + 1);
+    }
+    return decoded;
+  }
+  return value;
+}
+
+/** Mobile photos carry the author inline (userName, userEid, headUrl) instead of a nested object. */
+function flattenedAuthor(photo: StateObject, root: unknown): StateObject | null {
+  const name = asString(photo.userName) || asString(photo.user_name);
+  if (!name) return null;
+  // Without an eid to match on, any follower count in the state could be someone else's.
+  const userEid = asString(photo.userEid);
+  const profile = userEid
+    ? walkObjects(root).find((object) => asString(object.userEid) === userEid && (object.fan || object.fans))
+    : undefined;
+  return {
+    name,
+    id: userEid || asString(photo.userId) || asString(photo.user_id),
+    headerUrl: asString(photo.headUrl) || asString(photo.headurl),
+    fan: profile?.fan ?? profile?.fans,
+    verified: photo.verified ?? profile?.verified,
+  };
+}
+
+export const mobileExtractor: Extractor = {
+  name: "mobile",
+  appliesTo: isMobileUrl,
+  extract({ html }) {
+    for (const state of findPageStates(html)) {
+      const data = decodeNestedJson(state.data);
+      const photo = findPhotoObject(data);
+      if (!photo) continue;
+      const fields = mapPhotoToVideoInfo(photo, buildApolloIndex(data));
+      if (!fields.videoUrl && !fields.images) continue;
+
+      if (!fields.authorInfo) {
+        const author = flattenedAuthor(photo, data);
+        const authorInfo = author ? mapAuthorInfo(author, "kuaishou") : undefined;
+        if (authorInfo) {
+          fields.authorInfo = authorInfo;
+          fields.author = authorInfo.name;
+        }
+      }
+      return { fields, confidence: 0.92 };
+    }
+    return null;
+  },
+};
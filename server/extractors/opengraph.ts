@@ -0,0 +1,24 @@
+import type { VideoInfo } from "@shared/schema";
+import type { Extractor } from "./types";
+import { matchMetaContent, unescapeUrl } from "./utils";
+
+export const openGraphExtractor: Extractor = {
+  name: "opengraph",
+  extract({ html }) {
+    const fields: Partial<VideoInfo> = {};
+
+    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
+    const pageTitle = titleMatch ? titleMatch[1].replace(/\s*[-|]\s*快手.*$/i, "").trim() : "";
+    const title = matchMetaContent(html, "og:title") || pageTitle;
+    if (title) fields.title = title;
+
+    const thumbnail = matchMetaContent(html, "og:image");
+    if (thumbnail) fields.thumbnail = unescapeUrl(thumbnail);
+
+    const videoUrl = matchMetaContent(html, "og:video:url") || matchMetaContent(html, "og:video");
+    if (videoUrl) fields.videoUrl = unescapeUrl(videoUrl);
+
+    if (Object.keys(fields).length === 0) return null;
+    return { fields, confidence: 0.6 };
+  },
+};
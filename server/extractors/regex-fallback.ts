@@ -0,0 +1,71 @@
+import type { VideoInfo } from "@shared/schema";
+import type { Extractor } from "./types";
+import { firstPatternMatch, unescapeUrl } from "./utils";
+
+const audioUrlPatterns = [
+  /["'](https?:\/\/[^"'\s]+\.m4a[^"'\s]*?)["']/gi,
+  /["'](https?:\/\/[^"'\s]+\.mp3[^"'\s]*?)["']/gi,
+  /["'](https?:\/\/[^"'\s]+\.aac[^"'\s]*?)["']/gi,
+  /audioUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
+  /soundTrack["']?\s*[:=]\s*["']([^"']+)["']/i,
+];
+
+// The one video field whose name says it is watermark-free.
+const noWatermarkPatterns = [
+  /srcNoMark["']?\s*[:=]\s*["']([^"']+)["']/i,
+];
+
+const videoUrlPatterns = [
+  /["'](https?:\/\/[^"'\s]+\.mp4[^"'\s]*?)["']/gi,
+  /["'](https?:\/\/[^"'\s]*video[^"'\s]+\.mp4[^"'\s]*?)["']/gi,
+  /videoUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
+  /playUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
+];
+
+const m3u8Patterns = [
+  /["'](https?:\/\/[^"'\s]+\.m3u8[^"'\s]*?)["']/gi,
+  /hlsPlayUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
+];
+
+const imgPatterns = [
+  /["'](https?:\/\/[^"'\s]+(?:cover|poster|thumb)[^"'\s]*\.(?:jpg|jpeg|png|webp)[^"'\s]*?)["']/gi,
+  /coverUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
+  /posterUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
+];
+
+// Last resort for pages without structured data: guesses fields from
+// URL-shaped strings anywhere in the raw markup, so it often picks up the
+// wrong URL. Its confidence is kept low on purpose. It does not guess the
+// author: name-shaped strings in raw markup were too often unrelated JSON.
+export const regexFallbackExtractor: Extractor = {
+  name: "regex-fallback",
+  extract({ html }) {
+    const fields: Partial<VideoInfo> = {};
+    let confidence = 0.2;
+
+    const audioUrl = firstPatternMatch(html, audioUrlPatterns);
+    if (audioUrl) fields.audioUrl = unescapeUrl(audioUrl);
+
+    const cleanUrl = firstPatternMatch(html, noWatermarkPatterns);
+    if (cleanUrl) {
+      fields.variants = [{ url: unescapeUrl(cleanUrl), resolution: "Original", codec: "unknown", watermark: false }];
+    }
+
+    let videoUrl = cleanUrl || firstPatternMatch(
+      html,
+      videoUrlPatterns,
+      (url) => url.includes(".mp4") && !url.includes("poster") && !url.includes("cover"),
+    );
+    if (!videoUrl) {
+      videoUrl = firstPatternMatch(html, m3u8Patterns);
+      confidence = 0.1;
+    }
+    if (videoUrl) fields.videoUrl = unescapeUrl(videoUrl);
+
+    const thumbnail = firstPatternMatch(html, imgPatterns);
+    if (thumbnail) fields.thumbnail = unescapeUrl(thumbnail);
+
+    if (Object.keys(fields).length === 0) return null;
+    return { fields, confidence };
+  },
+};
@@ -0,0 +1,20 @@
+import type { VideoInfo } from "@shared/schema";
+
+export interface ExtractionContext {
+  html: string;
+  /** The page URL after redirects, which decides host-specific extractors. */
+  url: string;
+}
+
+export interface ExtractorResult {
+  fields: Partial<VideoInfo>;
+  /** 0..1: how much the merger should trust these fields over other strategies'. */
+  confidence: number;
+}
+
+export interface Extractor {
+  name: string;
+  /** Host-specific extractors set this; extractors without it run on every page. */
+  appliesTo?: (url: string) => boolean;
+  extract(context: ExtractionContext): ExtractorResult | null;
+}
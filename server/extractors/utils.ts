@@ -0,0 +1,24 @@
+export function unescapeUrl(url: string): string {
+  return url.replace(/\\u002F/g, "/").replace(/\\/g, "");
+}
+
+export function matchMetaContent(html: string, property: string): string {
+  const match =
+    html.match(new RegExp(`(?:property|name)=["']${property}["'][^>]*content=["']([^"']+)["']`, "i")) ||
+    html.match(new RegExp(`content=["']([^"']+)["'][^>]*(?:property|name)=["']${property}["']`, "i"));
+  return match ? match[1].trim() : "";
+}
+
+export function firstPatternMatch(html: string, patterns: RegExp[], accept?: (value: string) => boolean): string {
+  for (const pattern of patterns) {
+    const flags = pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`;
+    const global = new RegExp(pattern.source, flags);
+    let match;
+    while ((match = global.exec(html)) !== null) {
+      if (match[1] && (!accept || accept(match[1]))) {
+        return match[1];
+      }
+    }
+  }
+  return "";
+}
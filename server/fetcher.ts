@@ -0,0 +1,82 @@
+import type { RedirectHop } from "@shared/schema";
+
+export const USER_AGENTS = [
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+  "Mozilla/5.0 (Linux; Android 13; SM-G998B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36",
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+];
+
+export function getRandomUserAgent(): string {
+  return USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
+}
+
+/** A phone UA from USER_AGENTS, for hosts that serve desktop browsers an empty shell. */
+export function getMobileUserAgent(): string {
+  const mobileAgents = USER_AGENTS.filter((agent) => /Mobile/.test(agent));
+  return mobileAgents[Math.floor(Math.random() * mobileAgents.length)];
+}
+
+function originOf(url: string | undefined, fallback: string): string {
+  try {
+    return url ? new URL(url).origin : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Browser-like headers for any request, media downloads included. */
+export function getHeaders(referer?: string, userAgent = getRandomUserAgent()): Record<string, string> {
+  return {
+    "User-Agent": userAgent,
+    "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+    "Accept-Language": "en-US,en;q=0.9,zh-CN;q=0.8,zh;q=0.7",
+    "Accept-Encoding": "gzip, deflate, br",
+    "Referer": referer || "https://www.kuaishou.com/",
+    "Connection": "keep-alive",
+    "Cache-Control": "no-cache",
+    "Pragma": "no-cache",
+  };
+}
+
+/**
+ * getHeaders plus the Origin a browser sends from the page, for site pages and
+ * API calls. CDN media requests go without it, as they do from a video tag.
+ */
+export function getPageHeaders(referer?: string, userAgent?: string): Record<string, string> {
+  return { ...getHeaders(referer, userAgent), "Origin": originOf(referer, "https://www.kuaishou.com") };
+}
+
+/** Follows redirects by hand; pass `hops` to get every response along the way, the final one included. */
+export async function fetchWithRedirects(
+  url: string,
+  maxRedirects = 5,
+  userAgent?: string,
+  hops?: RedirectHop[],
+): Promise<globalThis.Response> {
+  let currentUrl = url;
+  let response: globalThis.Response | null = null;
+  
+  for (let i = 0; i < maxRedirects; i++) {
+    response = await fetch(currentUrl, {
+      headers: getPageHeaders(currentUrl, userAgent),
+      redirect: "manual",
+    });
+    
+    const location = response.headers.get("location") ?? undefined;
+    hops?.push({ url: currentUrl, status: response.status, location });
+
+    if (response.status >= 300 && response.status < 400) {
+      if (location) {
+        currentUrl = location.startsWith("http") ? location : new URL(location, currentUrl).href;
+        continue;
+      }
+    }
+    break;
+  }
+  
+  if (!response) {
+    throw new Error("Failed to fetch URL");
+  }
+  
+  return response;
+}
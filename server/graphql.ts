@@ -0,0 +1,115 @@
+import { getPageHeaders } from "./fetcher";
+
+const GRAPHQL_URL = process.env.KUAISHOU_GRAPHQL_URL || "https://www.kuaishou.com/graphql";
+const SESSION_TTL_MS = 30 * 60 * 1000;
+
+let session: { cookie: string; fetchedAt: number } | null = null;
+
+/**
+ * The web GraphQL endpoint rejects requests without the `did` device cookie
+ * the homepage hands out, so one is fetched and reused for a while.
+ * KUAISHOU_COOKIE overrides it (e.g. with a logged-in browser session).
+ */
+async function getSessionCookie(): Promise<string> {
+  if (process.env.KUAISHOU_COOKIE) {
+    return process.env.KUAISHOU_COOKIE;
+  }
+  if (session && Date.now() - session.fetchedAt < SESSION_TTL_MS) {
+    return session.cookie;
+  }
+
+  const origin = new URL(GRAPHQL_URL).origin;
+  const response = await fetch(`${origin}/`, { headers: getPageHeaders(`${origin}/`) });
+  const cookie = response.headers
+    .getSetCookie()
+    .map((header) => header.split(";")[0])
+    .join("; ");
+  session = { cookie, fetchedAt: Date.now() };
+  return cookie;
+}
+
+function resetGraphqlSession(): void {
+  session = null;
+}
+
+export async function queryGraphql<T>(
+  operationName: string,
+  query: string,
+  variables: Record<string, unknown>,
+  referer: string,
+  signal?: AbortSignal,
+): Promise<T> {
+  const cookie = await getSessionCookie();
+  const response = await fetch(GRAPHQL_URL, {
+    method: "POST",
+    signal,
+    headers: {
+      ...getPageHeaders(referer),
+      "Accept": "*/*",
+      "Content-Type": "application/json",
+      "Cookie": cookie,
+    },
+    body: JSON.stringify({ operationName, variables, query }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`GraphQL request failed with status ${response.status}`);
+  }
+
+  const body = await response.json() as { data?: T; errors?: Array<{ message?: string }> };
+  if (body.errors?.length) {
+    resetGraphqlSession();
+    throw new Error(body.errors.map((error) => error.message).join("; ") || "GraphQL error");
+  }
+  if (!body.data) {
+    throw new Error("GraphQL response has no data");
+  }
+  return body.data;
+}
+
+/**
+ * A listing cursor as handed to the client: Kuaishou's pcursor for the page
+ * to request next, plus how many of that page's feeds were already returned.
+ * Listings cut short at maxCount resume mid-page by asking for the same page
+ * again and skipping what the client already has.
+ */
+export interface ListingCursor {
+  pcursor: string;
+  skip: number;
+}
+
+export function encodeListingCursor(cursor: ListingCursor): string {
+  return `${cursor.skip}:${cursor.pcursor}`;
+}
+
+/** Reads a cursor from encodeListingCursor; anything else is taken as a bare pcursor. */
+export function decodeListingCursor(value: string | undefined): ListingCursor {
+  const separator = value ? value.indexOf(":") : -1;
+  if (!value || separator < 1 || !/^\d+$/.test(value.slice(0, separator))) {
+    return { pcursor: value ?? "", skip: 0 };
+  }
+  return { pcursor: value.slice(separator + 1), skip: Number(value.slice(0, separator)) };
+}
+
+export const PHOTO_FIELDS = `
+  id
+  duration
+  caption
+  likeCount
+  viewCount
+  realLikeCount
+  coverUrl
+  photoUrl
+  photoH265Url
+  manifest
+  manifestH265
+  coverUrls { cdn url }
+  timestamp
+`;
+
+export const AUTHOR_FIELDS = `
+  id
+  name
+  headerUrl
+  following
+`;
@@ -0,0 +1,251 @@
+import { createDecipheriv } from "crypto";
+import { getHeaders } from "./fetcher";
+
+const MAX_SEGMENTS = 5000;
+
+export interface HlsVariant {
+  url: string;
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+}
+
+export interface HlsKey {
+  method: string;
+  url?: string;
+  iv?: Buffer;
+}
+
+export interface HlsSegment {
+  url: string;
+  duration: number;
+  sequence: number;
+  key?: HlsKey;
+  byteRange?: { length: number; offset: number };
+}
+
+export interface MediaPlaylist {
+  kind: "media";
+  segments: HlsSegment[];
+  targetDuration: number;
+  mediaSequence: number;
+  /** EXT-X-MAP initialization section; present for fragmented-MP4 streams. */
+  initSegment?: { url: string; byteRange?: { length: number; offset: number } };
+  ended: boolean;
+}
+
+export interface MasterPlaylist {
+  kind: "master";
+  variants: HlsVariant[];
+}
+
+export type Playlist = MasterPlaylist | MediaPlaylist;
+
+export function isHlsPlaylist(url: string, contentType?: string | null): boolean {
+  if (contentType && /mpegurl/i.test(contentType)) return true;
+  return /\.m3u8(\?|#|$)/i.test(url);
+}
+
+function parseAttributes(list: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match;
+  while ((match = pattern.exec(list)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, "");
+  }
+  return attributes;
+}
+
+function parseByteRange(value: string, previousEnd: number): { length: number; offset: number } {
+  const [length, offset] = value.split("@");
+  return { length: Number(length), offset: offset !== undefined ? Number(offset) : previousEnd };
+}
+
+function parseIv(value: string | undefined): Buffer | undefined {
+  if (!value) return undefined;
+  const hex = value.replace(/^0x/i, "").padStart(32, "0");
+  return Buffer.from(hex, "hex");
+}
+
+export function parsePlaylist(text: string, baseUrl: string): Playlist {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (lines[0] !== "#EXTM3U") {
+    throw new Error("Not an HLS playlist");
+  }
+
+  const resolve = (uri: string) => new URL(uri, baseUrl).href;
+
+  if (lines.some((line) => line.startsWith("#EXT-X-STREAM-INF"))) {
+    const variants: HlsVariant[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].startsWith("#EXT-X-STREAM-INF:")) continue;
+      const attributes = parseAttributes(lines[i].slice("#EXT-X-STREAM-INF:".length));
+      const uri = lines.slice(i + 1).find((line) => !line.startsWith("#"));
+      if (!uri) continue;
+      const [width, height] = (attributes.RESOLUTION || "").split("x").map(Number);
+      variants.push({
+        url: resolve(uri),
+        bandwidth: Number(attributes["AVERAGE-BANDWIDTH"] || attributes.BANDWIDTH || 0),
+        width: width || undefined,
+        height: height || undefined,
+        codecs: attributes.CODECS,
+      });
+    }
+    return { kind: "master", variants };
+  }
+
+  const playlist: MediaPlaylist = { kind: "media", segments: [], targetDuration: 0, mediaSequence: 0, ended: false };
+  let key: HlsKey | undefined;
+  let duration = 0;
+  let byteRange: { length: number; offset: number } | undefined;
+  let byteRangeEnd = 0;
+
+  for (const line of lines) {
+    if (line.startsWith("#EXT-X-TARGETDURATION:")) {
+      playlist.targetDuration = Number(line.split(":")[1]);
+    } else if (line.startsWith("#EXT-X-MEDIA-SEQUENCE:")) {
+      playlist.mediaSequence = Number(line.split(":")[1]);
+    } else if (line.startsWith("#EXT-X-KEY:")) {
+      const attributes = parseAttributes(line.slice("#EXT-X-KEY:".length));
+      key = attributes.METHOD === "NONE"
+        ? undefined
+        : { method: attributes.METHOD, url: attributes.URI ? resolve(attributes.URI) : undefined, iv: parseIv(attributes.IV) };
+    } else if (line.startsWith("#EXT-X-MAP:")) {
+      const attributes = parseAttributes(line.slice("#EXT-X-MAP:".length));
+      playlist.initSegment = {
+        url: resolve(attributes.URI),
+        byteRange: attributes.BYTERANGE ? parseByteRange(attributes.BYTERANGE, 0) : undefined,
+      };
+    } else if (line.startsWith("#EXTINF:")) {
+      duration = parseFloat(line.slice("#EXTINF:".length));
+    } else if (line.startsWith("#EXT-X-BYTERANGE:")) {
+      byteRange = parseByteRange(line.slice("#EXT-X-BYTERANGE:".length), byteRangeEnd);
+    } else if (line === "#EXT-X-ENDLIST") {
+      playlist.ended = true;
+    } else if (!line.startsWith("#")) {
+      playlist.segments.push({
+        url: resolve(line),
+        duration,
+        sequence: playlist.mediaSequence + playlist.segments.length,
+        key,
+        byteRange,
+      });
+      if (byteRange) byteRangeEnd = byteRange.offset + byteRange.length;
+      duration = 0;
+      byteRange = undefined;
+    }
+  }
+
+  return playlist;
+}
+
+export function pickBestVariant(variants: HlsVariant[]): HlsVariant | null {
+  if (variants.length === 0) return null;
+  return [...variants].sort((a, b) => (b.height ?? 0) - (a.height ?? 0) || b.bandwidth - a.bandwidth)[0];
+}
+
+export async function fetchBytes(url: string, byteRange?: { length: number; offset: number }, signal?: AbortSignal): Promise<Buffer> {
+  const headers: Record<string, string> = getHeaders(url);
+  if (byteRange) {
+    headers.Range = `bytes=${byteRange.offset}-${byteRange.offset + byteRange.length - 1}`;
+  }
+  const response = await fetch(url, { headers, signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export async function fetchPlaylist(url: string, signal?: AbortSignal): Promise<Playlist> {
+  const response = await fetch(url, { headers: getHeaders(url), signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch playlist: ${response.status}`);
+  }
+  return parsePlaylist(await response.text(), response.url || url);
+}
+
+/** Follows a master playlist to its best variant; media playlists are returned as-is. */
+export async function resolveMediaPlaylist(url: string, text?: string, signal?: AbortSignal): Promise<{ url: string; playlist: MediaPlaylist }> {
+  let playlistUrl = url;
+  let playlist = text !== undefined ? parsePlaylist(text, url) : await fetchPlaylist(url, signal);
+
+  if (playlist.kind === "master") {
+    const best = pickBestVariant(playlist.variants);
+    if (!best) {
+      throw new Error("Master playlist has no variants");
+    }
+    playlistUrl = best.url;
+    playlist = await fetchPlaylist(best.url, signal);
+    if (playlist.kind === "master") {
+      throw new Error("Nested master playlists are not supported");
+    }
+  }
+
+  return { url: playlistUrl, playlist };
+}
+
+export function createSegmentDecryptor(signal?: AbortSignal) {
+  const keys = new Map<string, Buffer>();
+
+  return async function decrypt(segment: HlsSegment, data: Buffer): Promise<Buffer> {
+    if (!segment.key) return data;
+    if (segment.key.method !== "AES-128" || !segment.key.url) {
+      throw new Error(`Unsupported HLS encryption: ${segment.key.method}`);
+    }
+
+    let key = keys.get(segment.key.url);
+    if (!key) {
+      key = await fetchBytes(segment.key.url, undefined, signal);
+      keys.set(segment.key.url, key);
+    }
+
+    // Without an explicit IV, the media sequence number is the IV (RFC 8216 §5.2).
+    let iv = segment.key.iv;
+    if (!iv) {
+      iv = Buffer.alloc(16);
+      iv.writeUInt32BE(segment.sequence >>> 0, 12);
+    }
+
+    const decipher = createDecipheriv("aes-128-cbc", key, iv);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  };
+}
+
+export function fetchSegment(segment: HlsSegment, signal?: AbortSignal): Promise<Buffer> {
+  return fetchBytes(segment.url, segment.byteRange, signal);
+}
+
+export interface HlsDownload {
+  /** `ts` for MPEG-TS segments, `mp4` for fragmented-MP4 (EXT-X-MAP) streams. */
+  container: "ts" | "mp4";
+  chunks: AsyncGenerator<Buffer>;
+}
+
+/**
+ * Resolves a playlist and yields the decrypted segments in order. MPEG-TS
+ * segments concatenate into a playable .ts; fMP4 segments concatenate behind
+ * their init section into a playable fragmented .mp4.
+ */
+export async function downloadHls(url: string, text?: string): Promise<HlsDownload> {
+  const { playlist } = await resolveMediaPlaylist(url, text);
+  if (playlist.segments.length === 0) {
+    throw new Error("Playlist has no segments");
+  }
+  if (playlist.segments.length > MAX_SEGMENTS) {
+    throw new Error(`Playlist has more than ${MAX_SEGMENTS} segments`);
+  }
+
+  const decrypt = createSegmentDecryptor();
+
+  async function* chunks(): AsyncGenerator<Buffer> {
+    if (playlist.initSegment) {
+      yield await fetchBytes(playlist.initSegment.url, playlist.initSegment.byteRange);
+    }
+    for (const segment of playlist.segments) {
+      yield await decrypt(segment, await fetchSegment(segment));
+    }
+  }
+
+  return { container: playlist.initSegment ? "mp4" : "ts", chunks: chunks() };
+}
@@ -12,6 +12,9 @@ declare module "http" {
   }
 }
 
+// Pasted page sources run to a few hundred KB, well past the default 100kb body limit.
+app.use("/api/extract-html", express.json({ limit: "10mb" }));
+
 app.use(
   express.json({
     verify: (req, _res, buf) => {
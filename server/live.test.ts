@@ -0,0 +1,155 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { startStubServer, type StubServer } from "./stub-server";
+
+// live.ts reads these when it loads, so they are set before the dynamic import below.
+const recordingsDir = mkdtempSync(path.join(os.tmpdir(), "live-test-"));
+process.env.LIVE_RECORDINGS_DIR = recordingsDir;
+process.env.LIVE_MAX_CONCURRENT = "2";
+process.env.LIVE_RETENTION_MINUTES = "0.02";
+
+let live: typeof import("./live");
+let stub: StubServer;
+let playlistPolls = 0;
+const staleFile = path.join(recordingsDir, "left-over.ts");
+
+/** A live HLS window that slides by one segment per poll and ends on the third. */
+function slidingPlaylist(): string {
+  playlistPolls++;
+  const first = playlistPolls - 1;
+  const lines = ["#EXTM3U", "#EXT-X-VERSION:3", "#EXT-X-TARGETDURATION:1", `#EXT-X-MEDIA-SEQUENCE:${first}`];
+  for (let sequence = first; sequence < first + 3; sequence++) {
+    lines.push("#EXTINF:1.0,", `seg-${sequence}.ts`);
+  }
+  if (playlistPolls >= 3) lines.push("#EXT-X-ENDLIST");
+  return lines.join("\n");
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 8000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+before(async () => {
+  writeFileSync(staleFile, "old");
+  const longAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  utimesSync(staleFile, longAgo, longAgo);
+
+  stub = await startStubServer((req, res) => {
+    const url = req.url || "/";
+    if (url === "/room") {
+      const state = { liveStream: { caption: "Evening stream", playUrls: [{ url: `${stub.url}/live.flv`, bitrate: 2000 }] }, author: { name: "Streamer" }, isLiving: true };
+      res.setHeader("Content-Type", "text/html");
+      res.end(`<html><script>window.__INITIAL_STATE__=${JSON.stringify(state)};</script></html>`);
+    } else if (url === "/live.flv") {
+      res.writeHead(200, { "Content-Type": "video/x-flv" });
+      res.write("FLV");
+      const timer = setInterval(() => res.write("tag"), 20);
+      res.on("close", () => clearInterval(timer));
+    } else if (url === "/live.m3u8") {
+      res.end(slidingPlaylist());
+    } else if (url.startsWith("/seg-")) {
+      res.end(url.slice(1, url.indexOf(".")));
+    } else if (url === "/hang.m3u8") {
+      res.end("#EXTM3U\n#EXT-X-TARGETDURATION:1\n#EXT-X-MEDIA-SEQUENCE:0\n#EXTINF:1.0,\nhang.ts\n");
+    } else if (url === "/hang.ts") {
+      // Never answers: only aborting the request ends it.
+    } else {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+  live = await import("./live");
+});
+
+after(async () => {
+  await stub.close();
+  rmSync(recordingsDir, { recursive: true, force: true });
+});
+
+test("records an FLV stream found on the room page until stopped", async () => {
+  const stream = await live.resolveLiveRoom(`${stub.url}/room`);
+  assert.deepEqual(stream, { url: `${stub.url}/live.flv`, format: "flv", title: "Evening stream", author: "Streamer" });
+
+  const started = live.startRecording(stream, `${stub.url}/room`);
+  assert.equal(existsSync(staleFile), false, "files from a previous run past retention are removed");
+  await waitFor(() => (live.getRecording(started.id)?.bytesWritten ?? 0) > 20);
+
+  const stopped = live.stopRecording(started.id);
+  assert.equal(stopped?.state, "stopped");
+  const file = await live.getRecordingFile(started.id);
+  assert.ok(file);
+  const data = readFileSync(file.path, "utf8");
+  assert.ok(data.startsWith("FLVtag"));
+  assert.equal(data.length, file.recording.bytesWritten);
+  await live.deleteRecording(started.id);
+});
+
+test("appends each HLS segment exactly once across playlist refreshes", async () => {
+  const started = live.startRecording({ url: `${stub.url}/live.m3u8`, format: "hls", title: "HLS" }, `${stub.url}/room`);
+  await waitFor(() => live.getRecording(started.id)?.state !== "recording");
+
+  const file = await live.getRecordingFile(started.id);
+  assert.equal(file?.recording.state, "finished");
+  assert.equal(readFileSync(file!.path, "utf8"), "seg-0seg-1seg-2seg-3seg-4");
+  assert.equal(playlistPolls, 3);
+  await live.deleteRecording(started.id);
+});
+
+test("stopping aborts a segment request that is still in flight", async () => {
+  const started = live.startRecording({ url: `${stub.url}/hang.m3u8`, format: "hls", title: "Hang" }, `${stub.url}/room`);
+  await waitFor(() => stub.requests.includes("/hang.ts"));
+
+  live.stopRecording(started.id);
+  const closed = live.getRecordingFile(started.id);
+  const timeout = new Promise((_, reject) => setTimeout(() => reject(new Error("recording did not close")), 2000));
+  await Promise.race([closed, timeout]);
+  await live.deleteRecording(started.id);
+});
+
+test("refuses recordings beyond the concurrency limit until one is deleted", async () => {
+  const stream = { url: `${stub.url}/live.flv`, format: "flv" as const, title: "Cap" };
+  const first = live.startRecording(stream, `${stub.url}/room`);
+  const second = live.startRecording(stream, `${stub.url}/room`);
+  assert.throws(() => live.startRecording(stream, `${stub.url}/room`), live.RecordingLimitError);
+
+  const deleted = await live.deleteRecording(first.id);
+  assert.equal(deleted?.state, "stopped");
+  assert.equal(live.getRecording(first.id), null);
+  assert.equal(existsSync(path.join(recordingsDir, `${first.id}.flv`)), false);
+
+  const third = live.startRecording(stream, `${stub.url}/room`);
+  await live.deleteRecording(second.id);
+  await live.deleteRecording(third.id);
+  assert.equal(await live.deleteRecording(third.id), null);
+});
+
+test("deletes ended recordings once the retention period is over", async () => {
+  const started = live.startRecording({ url: `${stub.url}/live.flv`, format: "flv", title: "TTL" }, `${stub.url}/room`);
+  const stopped = live.stopRecording(started.id);
+  assert.ok(stopped?.expiresAt);
+  const filePath = path.join(recordingsDir, `${started.id}.flv`);
+
+  await waitFor(() => live.getRecording(started.id) === null, 5000);
+  await waitFor(() => !existsSync(filePath), 2000);
+});
+
+test("a file that cannot be written fails the recording instead of crashing the server", async () => {
+  const started = live.startRecording({ url: `${stub.url}/live.m3u8`, format: "hls", title: "Unwritable" }, `${stub.url}/room`);
+  // The file is opened asynchronously, so removing the directory now makes the open fail.
+  rmSync(recordingsDir, { recursive: true, force: true });
+
+  await waitFor(() => live.getRecording(started.id)?.state !== "recording");
+  const failed = live.getRecording(started.id);
+  assert.equal(failed?.state, "failed");
+  assert.match(failed?.error ?? "", /^Could not write the recording: ENOENT/);
+  assert.equal(await live.getRecordingFile(started.id), null);
+  await live.deleteRecording(started.id);
+  mkdirSync(recordingsDir, { recursive: true });
+});
@@ -0,0 +1,313 @@
+import { randomUUID } from "crypto";
+import { createWriteStream, mkdirSync, readdirSync, statSync, unlinkSync, type WriteStream } from "fs";
+import { rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { LiveRecording } from "@shared/schema";
+import { fetchWithRedirects, getHeaders } from "./fetcher";
+import { createSegmentDecryptor, fetchBytes, fetchPlaylist, fetchSegment, resolveMediaPlaylist } from "./hls";
+import { asString, findPageStates, isStateObject, walkObjects } from "./page-state";
+import { matchMetaContent } from "./extractors/utils";
+
+const RECORDINGS_DIR = process.env.LIVE_RECORDINGS_DIR || path.join(os.tmpdir(), "kuaishou-live");
+const MAX_RECORDING_MS = Number(process.env.LIVE_MAX_DURATION_MINUTES || 240) * 60 * 1000;
+const MIN_POLL_MS = 1000;
+const MAX_ACTIVE_RECORDINGS = Number(process.env.LIVE_MAX_CONCURRENT || 3);
+/** How long an ended recording stays downloadable before its file is deleted. */
+const RECORDING_TTL_MS = Number(process.env.LIVE_RETENTION_MINUTES || 60) * 60 * 1000;
+
+/** Thrown when MAX_ACTIVE_RECORDINGS are already running. */
+export class RecordingLimitError extends Error {
+  constructor() {
+    super(`At most ${MAX_ACTIVE_RECORDINGS} live recordings can run at once; stop one and try again`);
+    this.name = "RecordingLimitError";
+  }
+}
+
+export interface LiveStream {
+  url: string;
+  format: "flv" | "hls";
+  title: string;
+  author?: string;
+}
+
+interface RecordingJob {
+  recording: LiveRecording;
+  filePath: string;
+  controller: AbortController;
+  startedAtMs: number;
+  endedAtMs?: number;
+  /** Resolves once the output file is flushed and closed. */
+  closed: Promise<void>;
+  /** Deletes the file and forgets the job once the retention period is over. */
+  expiry?: NodeJS.Timeout;
+  /** Set when the output file could not be written; the partial file is removed on close. */
+  writeFailed?: boolean;
+}
+
+const jobs = new Map<string, RecordingJob>();
+
+interface StreamCandidate {
+  url: string;
+  format: "flv" | "hls";
+  bitrate: number;
+}
+
+function collectStreamCandidates(root: unknown): StreamCandidate[] {
+  const candidates: StreamCandidate[] = [];
+  for (const object of walkObjects(root)) {
+    for (const [key, value] of Object.entries(object)) {
+      if (typeof value !== "string" || !/^https?:\/\//.test(value)) continue;
+      const isFlv = /\.flv(\?|$)/i.test(value);
+      const isHls = /\.m3u8(\?|$)/i.test(value);
+      if (!isFlv && !isHls) continue;
+      if (key !== "url" && !/play/i.test(key)) continue;
+      candidates.push({
+        url: value,
+        format: isFlv ? "flv" : "hls",
+        bitrate: Number(object.bitrate) || 0,
+      });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Picks the live stream out of a live room page's __INITIAL_STATE__:
+ * FLV before HLS (lower latency, no polling), then the highest bitrate.
+ */
+export function findLiveStream(html: string): LiveStream | null {
+  for (const state of findPageStates(html)) {
+    const objects = walkObjects(state.data);
+    if (objects.some((object) => object.isLiving === false) && !objects.some((object) => object.isLiving === true)) {
+      return null;
+    }
+
+    const candidates = collectStreamCandidates(state.data).sort((a, b) => {
+      if (a.format !== b.format) return a.format === "flv" ? -1 : 1;
+      return b.bitrate - a.bitrate;
+    });
+    if (candidates.length === 0) continue;
+
+    const liveStream = objects.find((object) => isStateObject(object.playUrls) || "caption" in object);
+    const author = objects.find((object) => isStateObject(object.author) && object.author.name)?.author;
+
+    return {
+      url: candidates[0].url,
+      format: candidates[0].format,
+      title: asString(liveStream?.caption) || matchMetaContent(html, "og:title") || "Kuaishou Live",
+      author: isStateObject(author) ? asString(author.name) : undefined,
+    };
+  }
+  return null;
+}
+
+export async function resolveLiveRoom(url: string): Promise<LiveStream> {
+  const response = await fetchWithRedirects(url);
+  const stream = findLiveStream(await response.text());
+  if (!stream) {
+    throw new Error("This creator is not live right now, or the stream could not be found");
+  }
+  return stream;
+}
+
+function writeChunk(file: WriteStream, chunk: Uint8Array, job: RecordingJob): Promise<void> {
+  job.recording.bytesWritten += chunk.length;
+  return new Promise((resolve, reject) => {
+    file.write(chunk, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+async function recordFlv(job: RecordingJob, streamUrl: string, file: WriteStream): Promise<void> {
+  const response = await fetch(streamUrl, { headers: getHeaders(streamUrl), signal: job.controller.signal });
+  if (!response.ok || !response.body) {
+    throw new Error(`Stream request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    await writeChunk(file, value, job);
+  }
+}
+
+/** Polls the live playlist and appends each new segment exactly once, in sequence order. */
+async function recordHls(job: RecordingJob, streamUrl: string, file: WriteStream): Promise<void> {
+  const { signal } = job.controller;
+  const { url: mediaUrl, playlist: first } = await resolveMediaPlaylist(streamUrl, undefined, signal);
+  const decrypt = createSegmentDecryptor(signal);
+  let playlist = first;
+  let lastSequence = -1;
+
+  if (playlist.initSegment) {
+    await writeChunk(file, await fetchBytes(playlist.initSegment.url, playlist.initSegment.byteRange, signal), job);
+  }
+
+  while (!signal.aborted) {
+    for (const segment of playlist.segments) {
+      if (signal.aborted) return;
+      if (segment.sequence <= lastSequence) continue;
+      await writeChunk(file, await decrypt(segment, await fetchSegment(segment, signal)), job);
+      lastSequence = segment.sequence;
+    }
+    if (playlist.ended) return;
+
+    await sleep(Math.max(MIN_POLL_MS, (playlist.targetDuration * 1000) / 2), signal);
+    if (signal.aborted) return;
+
+    const next = await fetchPlaylist(mediaUrl, signal);
+    if (next.kind !== "media") {
+      throw new Error("Live playlist changed into a master playlist");
+    }
+    playlist = next;
+  }
+}
+
+function finish(job: RecordingJob, state: LiveRecording["state"], error?: string): void {
+  if (job.recording.state !== "recording") return;
+  job.endedAtMs = Date.now();
+  job.recording.state = state;
+  job.recording.endedAt = new Date(job.endedAtMs).toISOString();
+  job.recording.error = error;
+  job.recording.expiresAt = new Date(job.endedAtMs + RECORDING_TTL_MS).toISOString();
+  job.expiry = setTimeout(() => {
+    deleteRecording(job.recording.id).catch((error) => console.error(`Could not delete recording ${job.recording.id}:`, error));
+  }, RECORDING_TTL_MS);
+  job.expiry.unref();
+}
+
+let staleFilesRemoved = false;
+
+/** Recordings left over from a previous run have no job, so nothing else would delete them. */
+function removeStaleFiles(): void {
+  if (staleFilesRemoved) return;
+  staleFilesRemoved = true;
+  for (const name of readdirSync(RECORDINGS_DIR)) {
+    const filePath = path.join(RECORDINGS_DIR, name);
+    try {
+      if (Date.now() - statSync(filePath).mtimeMs > RECORDING_TTL_MS) unlinkSync(filePath);
+    } catch (error) {
+      console.error(`Could not remove stale recording ${name}:`, error);
+    }
+  }
+}
+
+/** Starts recording in the background and returns immediately. */
+export function startRecording(stream: LiveStream, sourceUrl: string): LiveRecording {
+  const active = Array.from(jobs.values()).filter((job) => job.recording.state === "recording");
+  if (active.length >= MAX_ACTIVE_RECORDINGS) {
+    throw new RecordingLimitError();
+  }
+  mkdirSync(RECORDINGS_DIR, { recursive: true });
+  removeStaleFiles();
+
+  const id = randomUUID();
+  const format = stream.format === "flv" ? "flv" : "ts";
+  const filePath = path.join(RECORDINGS_DIR, `${id}.${format}`);
+  const startedAtMs = Date.now();
+  const file = createWriteStream(filePath);
+  const job: RecordingJob = {
+    recording: {
+      id,
+      sourceUrl,
+      title: stream.title,
+      author: stream.author,
+      format,
+      state: "recording",
+      startedAt: new Date(startedAtMs).toISOString(),
+      elapsedSeconds: 0,
+      bytesWritten: 0,
+    },
+    filePath,
+    controller: new AbortController(),
+    startedAtMs,
+    closed: new Promise((resolve) => file.once("close", () => {
+      if (!job.writeFailed) return resolve();
+      rm(filePath, { force: true })
+        .catch((error) => console.error(`Could not remove partial recording ${id}:`, error))
+        .finally(() => resolve());
+    })),
+  };
+  jobs.set(id, job);
+
+  // A full disk or unwritable directory would otherwise crash the process with an unhandled 'error'.
+  file.on("error", (error) => {
+    if (job.writeFailed) return;
+    job.writeFailed = true;
+    console.error(`Live recording ${id} could not be written:`, error);
+    finish(job, "failed", `Could not write the recording: ${error.message}`);
+    job.controller.abort();
+  });
+
+  const limit = setTimeout(() => job.controller.abort(), MAX_RECORDING_MS);
+  const record = stream.format === "flv" ? recordFlv : recordHls;
+
+  record(job, stream.url, file)
+    .then(() => finish(job, job.controller.signal.aborted ? "stopped" : "finished"))
+    .catch((error) => {
+      if (job.controller.signal.aborted) {
+        finish(job, "stopped");
+      } else {
+        console.error(`Live recording ${id} failed:`, error);
+        finish(job, "failed", error instanceof Error ? error.message : "Recording failed");
+      }
+    })
+    .finally(() => {
+      clearTimeout(limit);
+      file.end();
+    });
+
+  return snapshot(job);
+}
+
+function snapshot(job: RecordingJob): LiveRecording {
+  return {
+    ...job.recording,
+    elapsedSeconds: Math.round(((job.endedAtMs ?? Date.now()) - job.startedAtMs) / 1000),
+  };
+}
+
+export function getRecording(id: string): LiveRecording | null {
+  const job = jobs.get(id);
+  return job ? snapshot(job) : null;
+}
+
+export function stopRecording(id: string): LiveRecording | null {
+  const job = jobs.get(id);
+  if (!job) return null;
+  job.controller.abort();
+  finish(job, "stopped");
+  return snapshot(job);
+}
+
+/** The finished file, once recording has ended and the file is closed. */
+export async function getRecordingFile(id: string): Promise<{ path: string; recording: LiveRecording } | null> {
+  const job = jobs.get(id);
+  if (!job || job.recording.state === "recording") return null;
+  await job.closed;
+  return job.writeFailed ? null : { path: job.filePath, recording: snapshot(job) };
+}
+
+/** Stops the recording if it is still running, then deletes its file and forgets it. */
+export async function deleteRecording(id: string): Promise<LiveRecording | null> {
+  const job = jobs.get(id);
+  if (!job) return null;
+  jobs.delete(id);
+  job.controller.abort();
+  finish(job, "stopped");
+  clearTimeout(job.expiry);
+  await job.closed;
+  await rm(job.filePath, { force: true });
+  return snapshot(job);
+}
@@ -0,0 +1,96 @@
+import { type Box, boxContent, findBox, findBoxes } from "./boxes";
+import { handlerOf } from "./moov";
+import { chunkLayout, readSampleTable, type ChunkLayout } from "./sample-table";
+import { patchField, rebuildBox, writeBox, writeBoxHeader, writeChunkOffsets } from "./writer";
+
+export interface AudioOnlyLayout {
+  /** ftyp, moov and the mdat header: everything before the first audio byte. */
+  header: Buffer;
+  /** Source byte ranges to copy, in output order, directly after `header`. */
+  chunks: ChunkLayout[];
+  sizeBytes: number;
+}
+
+function sampleEntryOf(buffer: Buffer, trak: Box): string {
+  const stsd = findBox(buffer, trak, ["mdia", "minf", "stbl", "stsd"]);
+  return stsd && stsd.size >= stsd.headerSize + 16 ? buffer.toString("latin1", stsd.start + stsd.headerSize + 12, stsd.start + stsd.headerSize + 16) : "";
+}
+
+function trackDuration(buffer: Buffer, tkhd: Box): number {
+  const content = boxContent(buffer, tkhd);
+  return content[0] === 1 ? Number(content.readBigUInt64BE(28)) : content.readUInt32BE(20);
+}
+
+/** The movie header with its duration set to the audio track's and the next track ID after it. */
+function writeMovieHeader(buffer: Buffer, mvhd: Box, duration: number): Buffer {
+  const version = buffer[mvhd.start + mvhd.headerSize];
+  const patched = patchField(buffer, mvhd, version === 1 ? 24 : 16, duration, version === 1 ? 8 : 4);
+  patched.writeUInt32BE(2, patched.length - 4);
+  return patched;
+}
+
+/**
+ * Plans an audio-only M4A from a movie's moov: the AAC track becomes track 1
+ * of a new moov (its sample description, timing and edit list copied as-is),
+ * and its chunks are laid out back to back in a single mdat after it.
+ */
+export function buildAudioOnlyLayout(buffer: Buffer, moov: Box): AudioOnlyLayout {
+  const mvhd = findBox(buffer, moov, ["mvhd"]);
+  const trak = findBoxes(buffer, moov, "trak").find((track) => handlerOf(buffer, track) === "soun");
+  if (!mvhd || !trak) {
+    throw new Error("This video has no audio track");
+  }
+  if (sampleEntryOf(buffer, trak) !== "mp4a") {
+    throw new Error("Only AAC audio tracks can be extracted");
+  }
+
+  const tkhd = findBox(buffer, trak, ["tkhd"]);
+  const stbl = findBox(buffer, trak, ["mdia", "minf", "stbl"]);
+  if (!tkhd || !stbl) {
+    throw new Error("Audio track is missing its header or sample table");
+  }
+
+  const chunks = chunkLayout(readSampleTable(buffer, stbl));
+  if (chunks.length === 0) {
+    throw new Error("Audio track has no samples; fragmented MP4 is not supported");
+  }
+  for (let i = 1; i < chunks.length; i++) {
+    if (chunks[i].offset < chunks[i - 1].offset + chunks[i - 1].size) {
+      throw new Error("Audio chunks are not stored in order");
+    }
+  }
+
+  const ftyp = writeBox("ftyp", Buffer.from("M4A \0\0\0\0M4A mp42isom", "latin1"));
+  const tkhdVersion = buffer[tkhd.start + tkhd.headerSize];
+  const buildMoov = (chunkOffsets: number[]) => writeBox(
+    "moov",
+    writeMovieHeader(buffer, mvhd, trackDuration(buffer, tkhd)),
+    rebuildBox(buffer, trak, (child) => {
+      if (child.type === "tkhd") return patchField(buffer, child, tkhdVersion === 1 ? 20 : 12, 1, 4);
+      if (child.type === "tref") return null;
+      if (child.type === "stco" || child.type === "co64") return writeChunkOffsets(chunkOffsets);
+      return undefined;
+    }),
+  );
+
+  const mediaSize = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+  const mdatHeader = writeBoxHeader("mdat", mediaSize);
+
+  // Offsets depend on the moov's size, which only depends on their count and width.
+  const placeholder = buildMoov(chunks.map(() => 0));
+  let position = ftyp.length + placeholder.length + mdatHeader.length;
+  const offsets = chunks.map((chunk) => {
+    const offset = position;
+    position += chunk.size;
+    return offset;
+  });
+  let moovBox = buildMoov(offsets);
+  if (moovBox.length !== placeholder.length) {
+    // Crossing 4 GiB switched stco to co64; lay out again with the larger table.
+    const shift = moovBox.length - placeholder.length;
+    moovBox = buildMoov(offsets.map((offset) => offset + shift));
+  }
+
+  const header = Buffer.concat([ftyp, moovBox, mdatHeader]);
+  return { header, chunks, sizeBytes: header.length + mediaSize };
+}
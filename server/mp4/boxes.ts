@@ -0,0 +1,68 @@
+export interface Box {
+  type: string;
+  /** Offset of the box header within the buffer it was read from. */
+  start: number;
+  headerSize: number;
+  /** Full size including the header. */
+  size: number;
+}
+
+export const CONTAINER_BOXES = new Set(["moov", "trak", "mdia", "minf", "stbl", "edts", "dinf", "mvex", "udta"]);
+
+/**
+ * Reads the box header at `offset`. The returned box may extend past the end
+ * of `buffer` when only part of the file is in memory; callers check `size`.
+ */
+export function readBoxHeader(buffer: Buffer, offset: number): Box | null {
+  if (offset + 8 > buffer.length) return null;
+
+  let size = buffer.readUInt32BE(offset);
+  const type = buffer.toString("latin1", offset + 4, offset + 8);
+  let headerSize = 8;
+
+  if (size === 1) {
+    if (offset + 16 > buffer.length) return null;
+    size = Number(buffer.readBigUInt64BE(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = buffer.length - offset;
+  }
+
+  if (size < headerSize) return null;
+  return { type, start: offset, headerSize, size };
+}
+
+/** Sibling boxes between `start` and `end`; stops at the first box that does not fit. */
+export function readBoxes(buffer: Buffer, start = 0, end = buffer.length): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset < end) {
+    const box = readBoxHeader(buffer, offset);
+    if (!box || box.start + box.size > end) break;
+    boxes.push(box);
+    offset += box.size;
+  }
+  return boxes;
+}
+
+export function boxContent(buffer: Buffer, box: Box): Buffer {
+  return buffer.subarray(box.start + box.headerSize, box.start + box.size);
+}
+
+export function childBoxes(buffer: Buffer, box: Box): Box[] {
+  return readBoxes(buffer, box.start + box.headerSize, box.start + box.size);
+}
+
+/** Follows a path such as `["mdia", "minf", "stbl"]` from the children of `parent`. */
+export function findBox(buffer: Buffer, parent: Box, path: string[]): Box | null {
+  let current: Box | null = parent;
+  for (const type of path) {
+    if (!current) return null;
+    current = childBoxes(buffer, current).find((child) => child.type === type) ?? null;
+  }
+  return current;
+}
+
+export function findBoxes(buffer: Buffer, parent: Box, type: string): Box[] {
+  return childBoxes(buffer, parent).filter((child) => child.type === type);
+}
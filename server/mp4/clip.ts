@@ -0,0 +1,279 @@
+import { type Box, boxContent, findBox, findBoxes } from "./boxes";
+import { handlerOf, readVersionedTimes } from "./moov";
+import {
+  chunkLayout,
+  readSampleTable,
+  writeCompositionOffsets,
+  writeSampleSizes,
+  writeSampleToChunk,
+  writeSyncSamples,
+  writeTimeToSample,
+  type ChunkLayout,
+  type SampleTable,
+} from "./sample-table";
+import { patchField, rebuildBox, writeBox, writeBoxHeader, writeChunkOffsets, writeFullBox } from "./writer";
+
+export interface ClipLayout {
+  /** ftyp, moov and the mdat header: everything before the first sample byte. */
+  header: Buffer;
+  /** Source byte ranges to copy, in output order, directly after `header`. */
+  chunks: ChunkLayout[];
+  sizeBytes: number;
+  /** The range actually cut, after snapping the start back to a keyframe. */
+  startSeconds: number;
+  endSeconds: number;
+}
+
+/** Sample-table boxes indexed by sample number that a clip would leave stale. */
+const DROPPED_SAMPLE_BOXES = new Set(["sdtp", "sbgp", "sgpd", "subs", "saiz", "saio"]);
+
+interface TrackClip {
+  trak: Box;
+  handler: string;
+  timescale: number;
+  table: SampleTable;
+  /** Decode time of every sample, plus the track's end as a final entry. */
+  decodeTimes: number[];
+  firstSample: number;
+  endSample: number;
+  /** The kept part of each source chunk, renumbered from the clip's first sample. */
+  chunks: ChunkLayout[];
+  descriptions: number[];
+  /** elst media_time of the source's first non-empty edit, 0 without one. */
+  mediaTimeShift: number;
+}
+
+function decodeTimesOf(table: SampleTable): number[] {
+  const times = [0];
+  table.sampleDeltas.forEach((delta) => times.push(times[times.length - 1] + delta));
+  return times;
+}
+
+/** Index of the last sample that starts at or before `time`. */
+function sampleAtOrBefore(decodeTimes: number[], time: number): number {
+  let sample = 0;
+  while (sample + 1 < decodeTimes.length - 1 && decodeTimes[sample + 1] <= time) sample++;
+  return sample;
+}
+
+/** Index of the first sample that starts at or after `time`, or the sample count. */
+function sampleAtOrAfter(decodeTimes: number[], time: number): number {
+  let sample = 0;
+  while (sample < decodeTimes.length - 1 && decodeTimes[sample] < time) sample++;
+  return sample;
+}
+
+function readMediaTimeShift(buffer: Buffer, trak: Box): number {
+  const elst = findBox(buffer, trak, ["edts", "elst"]);
+  if (!elst) return 0;
+  const content = boxContent(buffer, elst);
+  const version = content[0];
+  const count = content.readUInt32BE(4);
+  const entrySize = version === 1 ? 20 : 12;
+  for (let i = 0; i < count; i++) {
+    const at = 8 + i * entrySize;
+    const mediaTime = version === 1 ? Number(content.readBigInt64BE(at + 8)) : content.readInt32BE(at + 4);
+    if (mediaTime >= 0) return mediaTime;
+  }
+  return 0;
+}
+
+function readTrack(buffer: Buffer, trak: Box): TrackClip | null {
+  const handler = handlerOf(buffer, trak);
+  const mdhd = findBox(buffer, trak, ["mdia", "mdhd"]);
+  const stbl = findBox(buffer, trak, ["mdia", "minf", "stbl"]);
+  if ((handler !== "vide" && handler !== "soun") || !mdhd || !stbl) return null;
+
+  const table = readSampleTable(buffer, stbl);
+  if (table.sampleDeltas.length !== table.sampleSizes.length) {
+    throw new Error("Sample table is inconsistent: timings and sample sizes disagree");
+  }
+  return {
+    trak,
+    handler,
+    timescale: readVersionedTimes(boxContent(buffer, mdhd), 12).timescale,
+    table,
+    decodeTimes: decodeTimesOf(table),
+    firstSample: 0,
+    endSample: 0,
+    chunks: [],
+    descriptions: [],
+    mediaTimeShift: readMediaTimeShift(buffer, trak),
+  };
+}
+
+/** Keeps samples [firstSample, endSample) of each source chunk, trimming partial chunks at either end. */
+function clipChunks(track: TrackClip): void {
+  const { table, firstSample, endSample } = track;
+  chunkLayout(table).forEach((chunk, i) => {
+    const from = Math.max(chunk.firstSample, firstSample);
+    const to = Math.min(chunk.firstSample + chunk.sampleCount, endSample);
+    if (from >= to) return;
+    let offset = chunk.offset;
+    for (let sample = chunk.firstSample; sample < from; sample++) offset += table.sampleSizes[sample];
+    let size = 0;
+    for (let sample = from; sample < to; sample++) size += table.sampleSizes[sample];
+    track.chunks.push({ offset, size, firstSample: from - firstSample, sampleCount: to - from });
+    track.descriptions.push(table.descriptionPerChunk[i]);
+  });
+}
+
+function writeEditList(segmentDuration: number, mediaTime: number): Buffer {
+  const entry = Buffer.alloc(16);
+  entry.writeUInt32BE(1, 0);
+  entry.writeUInt32BE(segmentDuration, 4);
+  entry.writeInt32BE(mediaTime, 8);
+  entry.writeUInt32BE(0x00010000, 12);
+  return writeBox("edts", writeFullBox("elst", 0, 0, entry));
+}
+
+function writeClippedTrack(buffer: Buffer, track: TrackClip, movieDuration: number, clipStartSeconds: number, chunkOffsets: number[]): Buffer {
+  const { table, firstSample, endSample } = track;
+  const deltas = table.sampleDeltas.slice(firstSample, endSample);
+  const mediaDuration = deltas.reduce((sum, delta) => sum + delta, 0);
+
+  // Composition delays (B-frames) apply throughout a video track, but an audio
+  // track's priming offset only covers its first samples. Past that, the edit
+  // just lines the track up with the video keyframe the clip starts on.
+  const shift = track.handler === "vide" || firstSample === 0 ? track.mediaTimeShift : 0;
+  const mediaTime = shift + Math.round(clipStartSeconds * track.timescale) - track.decodeTimes[firstSample];
+
+  return rebuildBox(buffer, track.trak, (child) => {
+    const version = buffer[child.start + child.headerSize];
+    switch (child.type) {
+      case "tkhd":
+        // The new edit list goes right after the track header.
+        return Buffer.concat([
+          patchField(buffer, child, version === 1 ? 28 : 20, movieDuration, version === 1 ? 8 : 4),
+          writeEditList(movieDuration, mediaTime),
+        ]);
+      case "edts":
+      case "tref":
+        return null;
+      case "mdhd":
+        return patchField(buffer, child, version === 1 ? 24 : 16, mediaDuration, version === 1 ? 8 : 4);
+      case "stts":
+        return writeTimeToSample(deltas);
+      case "ctts":
+        return writeCompositionOffsets(table.compositionOffsets!.slice(firstSample, endSample), table.cttsVersion);
+      case "stss":
+        return writeSyncSamples(
+          table.syncSamples!.filter((sample) => sample >= firstSample && sample < endSample).map((sample) => sample - firstSample),
+        );
+      case "stsz":
+        return writeSampleSizes(table.sampleSizes.slice(firstSample, endSample));
+      case "stsc":
+        return writeSampleToChunk(track.chunks.map((chunk) => chunk.sampleCount), track.descriptions);
+      case "stco":
+      case "co64":
+        return writeChunkOffsets(chunkOffsets);
+      default:
+        return DROPPED_SAMPLE_BOXES.has(child.type) ? null : undefined;
+    }
+  });
+}
+
+/**
+ * Plans a lossless cut of a movie to [startSeconds, endSeconds): the start
+ * snaps back to the video keyframe at or before it, every audio and video
+ * track keeps the samples inside the range with their sample tables
+ * rewritten, and the kept chunks are laid out in one mdat in source order.
+ */
+export function buildClipLayout(buffer: Buffer, moov: Box, startSeconds: number, endSeconds: number): ClipLayout {
+  const mvhd = findBox(buffer, moov, ["mvhd"]);
+  if (!mvhd) {
+    throw new Error("Movie header is missing");
+  }
+  const movieTimescale = readVersionedTimes(boxContent(buffer, mvhd), 12).timescale;
+  const tracks = findBoxes(buffer, moov, "trak")
+    .map((trak) => readTrack(buffer, trak))
+    .filter((track): track is TrackClip => track !== null);
+  if (tracks.length === 0) {
+    throw new Error("This file has no audio or video tracks");
+  }
+
+  const movieEnd = Math.max(...tracks.map((track) => track.decodeTimes[track.decodeTimes.length - 1] / track.timescale));
+  if (startSeconds >= movieEnd) {
+    throw new Error(`The clip starts after the video ends (${movieEnd.toFixed(1)}s)`);
+  }
+
+  let clipStart = startSeconds;
+  const video = tracks.find((track) => track.handler === "vide");
+  if (video) {
+    const requested = sampleAtOrBefore(video.decodeTimes, startSeconds * video.timescale);
+    const syncSamples = video.table.syncSamples;
+    video.firstSample = syncSamples ? syncSamples.filter((sample) => sample <= requested).pop() ?? 0 : requested;
+    clipStart = video.decodeTimes[video.firstSample] / video.timescale;
+  }
+
+  let lastSampleEnd = clipStart;
+  tracks.forEach((track) => {
+    const { decodeTimes, timescale } = track;
+    if (track !== video) track.firstSample = sampleAtOrBefore(decodeTimes, Math.round(clipStart * timescale));
+    track.endSample = sampleAtOrAfter(decodeTimes, endSeconds * timescale);
+    if (track.endSample > track.firstSample) {
+      lastSampleEnd = Math.max(lastSampleEnd, decodeTimes[track.endSample] / timescale);
+    }
+  });
+  const clipEnd = Math.min(endSeconds, lastSampleEnd);
+  const kept = tracks.filter((track) => track.endSample > track.firstSample);
+  if (video && !kept.includes(video)) {
+    throw new Error("The clip range has no video frames");
+  }
+  kept.forEach(clipChunks);
+
+  // Copy chunks in source order so the media can be read in one pass.
+  const ordered = kept
+    .flatMap((track) => track.chunks.map((chunk) => ({ track, chunk })))
+    .sort((a, b) => a.chunk.offset - b.chunk.offset);
+  for (let i = 1; i < ordered.length; i++) {
+    const previous = ordered[i - 1].chunk;
+    if (ordered[i].chunk.offset < previous.offset + previous.size) {
+      throw new Error("Media chunks overlap");
+    }
+  }
+
+  const movieDuration = Math.round((clipEnd - clipStart) * movieTimescale);
+  const mvhdVersion = buffer[mvhd.start + mvhd.headerSize];
+  const ftyp = writeBox("ftyp", Buffer.from("isom\0\0\x02\0isomiso2avc1mp41", "latin1"));
+  const buildMoov = (offsets: Map<ChunkLayout, number>) => writeBox(
+    "moov",
+    patchField(buffer, mvhd, mvhdVersion === 1 ? 24 : 16, movieDuration, mvhdVersion === 1 ? 8 : 4),
+    ...kept.map((track) => writeClippedTrack(
+      buffer,
+      track,
+      movieDuration,
+      clipStart,
+      track.chunks.map((chunk) => offsets.get(chunk) ?? 0),
+    )),
+  );
+
+  const mediaSize = ordered.reduce((sum, { chunk }) => sum + chunk.size, 0);
+  const mdatHeader = writeBoxHeader("mdat", mediaSize);
+
+  // As with audio extraction, the moov's size only depends on the offset count and width.
+  const placeholder = buildMoov(new Map());
+  const layOut = (start: number) => {
+    const offsets = new Map<ChunkLayout, number>();
+    let position = start;
+    ordered.forEach(({ chunk }) => {
+      offsets.set(chunk, position);
+      position += chunk.size;
+    });
+    return offsets;
+  };
+  const firstByte = ftyp.length + placeholder.length + mdatHeader.length;
+  let moovBox = buildMoov(layOut(firstByte));
+  if (moovBox.length !== placeholder.length) {
+    moovBox = buildMoov(layOut(firstByte + moovBox.length - placeholder.length));
+  }
+
+  const header = Buffer.concat([ftyp, moovBox, mdatHeader]);
+  return {
+    header,
+    chunks: ordered.map(({ chunk }) => chunk),
+    sizeBytes: header.length + mediaSize,
+    startSeconds: clipStart,
+    endSeconds: clipEnd,
+  };
+}
@@ -0,0 +1,93 @@
+import { type Box, boxContent, childBoxes } from "./boxes";
+import { readChunkOffsets } from "./sample-table";
+import { rebuildBox, writeBox, writeChunkOffsets, writeFullBox } from "./writer";
+
+export interface CoverArt {
+  data: Buffer;
+  format: "jpeg" | "png";
+}
+
+/** iTunes-style tags; every field is optional and empty ones are left out. */
+export interface MediaTags {
+  title?: string;
+  artist?: string;
+  comment?: string;
+  /** Release date, ISO-8601 or just a year. */
+  date?: string;
+  cover?: CoverArt;
+}
+
+/** Well-known data types from the QuickTime metadata spec. */
+const DATA_TYPE_UTF8 = 1;
+const DATA_TYPE_JPEG = 13;
+const DATA_TYPE_PNG = 14;
+
+function writeItem(type: string, dataType: number, payload: Buffer): Buffer {
+  const typeAndLocale = Buffer.alloc(8);
+  typeAndLocale.writeUInt32BE(dataType, 0);
+  return writeBox(type, writeBox("data", typeAndLocale, payload));
+}
+
+/** `meta` box holding an `mdir` handler and an `ilst` of the given tags. */
+export function writeMetadataBox(tags: MediaTags): Buffer {
+  const text: Array<[string, string | undefined]> = [
+    ["©nam", tags.title],
+    ["©ART", tags.artist],
+    ["©cmt", tags.comment],
+    ["©day", tags.date],
+  ];
+  const items = text
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([type, value]) => writeItem(type, DATA_TYPE_UTF8, Buffer.from(value, "utf8")));
+  if (tags.cover) {
+    items.push(writeItem("covr", tags.cover.format === "png" ? DATA_TYPE_PNG : DATA_TYPE_JPEG, tags.cover.data));
+  }
+
+  const handler = Buffer.alloc(21);
+  handler.write("mdirappl", 4, "latin1");
+  return writeFullBox("meta", 0, 0, writeFullBox("hdlr", 0, 0, handler), writeBox("ilst", ...items));
+}
+
+/**
+ * Re-serialises a moov with `tags` in moov/udta/meta, replacing any metadata
+ * already there. When the moov sits before the media data, growing it moves
+ * every sample, so `shiftOffsets` adds the growth to each chunk offset.
+ */
+export function tagMovieBox(buffer: Buffer, moov: Box, tags: MediaTags, shiftOffsets: boolean): Buffer {
+  const meta = writeMetadataBox(tags);
+  const build = (shift: number) => {
+    const children = childBoxes(buffer, moov);
+    const parts = children
+      .filter((child) => child.type !== "meta")
+      .map((child) => {
+        if (child.type === "udta") {
+          const kept = childBoxes(buffer, child)
+            .filter((entry) => entry.type !== "meta")
+            .map((entry) => buffer.subarray(entry.start, entry.start + entry.size));
+          return writeBox("udta", ...kept, meta);
+        }
+        if (child.type === "trak" && shift !== 0) {
+          return rebuildBox(buffer, child, (entry) => {
+            if (entry.type !== "stco" && entry.type !== "co64") return undefined;
+            const offsets = readChunkOffsets(boxContent(buffer, entry), entry.type === "co64");
+            return writeChunkOffsets(offsets.map((offset) => offset + shift));
+          });
+        }
+        return buffer.subarray(child.start, child.start + child.size);
+      });
+    if (!children.some((child) => child.type === "udta")) {
+      parts.push(writeBox("udta", meta));
+    }
+    return writeBox("moov", ...parts);
+  };
+
+  let tagged = build(0);
+  if (!shiftOffsets) return tagged;
+  // Shifting can switch stco to co64 and grow the moov again; settle on a stable size.
+  let shift = 0;
+  while (tagged.length - moov.size !== shift) {
+    shift = tagged.length - moov.size;
+    tagged = build(shift);
+  }
+  return tagged;
+}
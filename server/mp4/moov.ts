@@ -0,0 +1,107 @@
+import { type Box, boxContent, findBox, findBoxes, readBoxes } from "./boxes";
+
+export interface TrackInfo {
+  id: number;
+  /** `vide`, `soun`, ... from the hdlr box. */
+  handler: string;
+  /** Sample entry fourcc from stsd, e.g. `avc1`, `hvc1`, `mp4a`. */
+  codec: string;
+  timescale: number;
+  duration: number;
+  width?: number;
+  height?: number;
+  channels?: number;
+  sampleRate?: number;
+}
+
+export interface MovieInfo {
+  timescale: number;
+  duration: number;
+  durationSeconds: number;
+  tracks: TrackInfo[];
+}
+
+/** `vide`, `soun`, ... from a trak's hdlr box. */
+export function handlerOf(buffer: Buffer, trak: Box): string {
+  const hdlr = findBox(buffer, trak, ["mdia", "hdlr"]);
+  return hdlr ? boxContent(buffer, hdlr).toString("latin1", 8, 12) : "";
+}
+
+/** Timescale and duration from an mvhd or mdhd payload, whose times widen to 64 bits in version 1. */
+export function readVersionedTimes(content: Buffer, v0Offset: number): { timescale: number; duration: number } {
+  const version = content[0];
+  if (version === 1) {
+    return {
+      timescale: content.readUInt32BE(v0Offset + 8),
+      duration: Number(content.readBigUInt64BE(v0Offset + 12)),
+    };
+  }
+  return {
+    timescale: content.readUInt32BE(v0Offset),
+    duration: content.readUInt32BE(v0Offset + 4),
+  };
+}
+
+function parseSampleEntry(buffer: Buffer, stsd: Box): Partial<TrackInfo> {
+  const content = boxContent(buffer, stsd);
+  const entriesStart = stsd.start + stsd.headerSize + 8;
+  const [entry] = readBoxes(buffer, entriesStart, stsd.start + stsd.size);
+  if (!entry || content.length < 8) return {};
+
+  const entryContent = boxContent(buffer, entry);
+  const info: Partial<TrackInfo> = { codec: entry.type };
+  if (["avc1", "avc3", "hvc1", "hev1", "vp09", "av01"].includes(entry.type) && entryContent.length >= 28) {
+    info.width = entryContent.readUInt16BE(24);
+    info.height = entryContent.readUInt16BE(26);
+  } else if (entry.type === "mp4a" && entryContent.length >= 28) {
+    info.channels = entryContent.readUInt16BE(16);
+    info.sampleRate = entryContent.readUInt32BE(24) >>> 16;
+  }
+  return info;
+}
+
+function parseTrack(buffer: Buffer, trak: Box): TrackInfo | null {
+  const tkhd = findBox(buffer, trak, ["tkhd"]);
+  const mdhd = findBox(buffer, trak, ["mdia", "mdhd"]);
+  const hdlr = findBox(buffer, trak, ["mdia", "hdlr"]);
+  const stsd = findBox(buffer, trak, ["mdia", "minf", "stbl", "stsd"]);
+  if (!tkhd || !mdhd || !hdlr) return null;
+
+  const tkhdContent = boxContent(buffer, tkhd);
+  const id = tkhdContent.readUInt32BE(tkhdContent[0] === 1 ? 20 : 12);
+  const { timescale, duration } = readVersionedTimes(boxContent(buffer, mdhd), 12);
+  const handler = boxContent(buffer, hdlr).toString("latin1", 8, 12);
+
+  const track: TrackInfo = { id, handler, codec: "", timescale, duration };
+  Object.assign(track, stsd ? parseSampleEntry(buffer, stsd) : {});
+
+  // tkhd carries the presentation size as 16.16 fixed point in its last 8 bytes.
+  const presentationWidth = tkhdContent.readUInt32BE(tkhdContent.length - 8) / 65536;
+  const presentationHeight = tkhdContent.readUInt32BE(tkhdContent.length - 4) / 65536;
+  if (presentationWidth > 0 && presentationHeight > 0) {
+    track.width = Math.round(presentationWidth);
+    track.height = Math.round(presentationHeight);
+  }
+
+  return track;
+}
+
+/** Parses the movie header and track summaries out of a complete moov box. */
+export function parseMovie(buffer: Buffer, moov: Box): MovieInfo {
+  const mvhd = findBox(buffer, moov, ["mvhd"]);
+  if (!mvhd) {
+    throw new Error("moov box has no mvhd");
+  }
+  const { timescale, duration } = readVersionedTimes(boxContent(buffer, mvhd), 12);
+
+  const tracks = findBoxes(buffer, moov, "trak")
+    .map((trak) => parseTrack(buffer, trak))
+    .filter((track): track is TrackInfo => track !== null);
+
+  return {
+    timescale,
+    duration,
+    durationSeconds: timescale > 0 ? duration / timescale : 0,
+    tracks,
+  };
+}
@@ -0,0 +1,211 @@
+import { type Box, boxContent, findBox } from "./boxes";
+import { writeFullBox } from "./writer";
+
+export interface ChunkLayout {
+  /** Byte offset of the chunk in the source file. */
+  offset: number;
+  size: number;
+  /** Index into the track's samples (0-based) of the chunk's first sample. */
+  firstSample: number;
+  sampleCount: number;
+}
+
+export interface SampleTable {
+  sampleSizes: number[];
+  chunkOffsets: number[];
+  /** Samples in each chunk, expanded from stsc's runs. */
+  samplesPerChunk: number[];
+  /** stsd entry (1-based) each chunk's samples use. */
+  descriptionPerChunk: number[];
+  /** Decode duration of each sample, expanded from stts. */
+  sampleDeltas: number[];
+  /** Composition offset of each sample from ctts; absent when the track has none. */
+  compositionOffsets?: number[];
+  cttsVersion: number;
+  /** 0-based indexes of sync samples from stss; absent when every sample is a sync sample. */
+  syncSamples?: number[];
+}
+
+/**
+ * Most samples a track may have when stsz gives one size for all of them and so
+ * has no table to measure the count against: hours of 60 fps video.
+ */
+const MAX_UNIFORM_SAMPLES = 2_000_000;
+
+/**
+ * Reads the entry count at countOffset, refusing counts the rest of the box has
+ * no room for: they come from a remote file and would otherwise size our arrays.
+ */
+function readEntryCount(content: Buffer, countOffset: number, entrySize: number): number {
+  const count = content.readUInt32BE(countOffset);
+  if (count > (content.length - countOffset - 4) / entrySize) {
+    throw new Error("Sample table is corrupt: it lists more entries than it holds");
+  }
+  return count;
+}
+
+function readSampleSizes(content: Buffer): number[] {
+  const uniformSize = content.readUInt32BE(4);
+  if (uniformSize !== 0) {
+    const count = content.readUInt32BE(8);
+    if (count > MAX_UNIFORM_SAMPLES) throw new Error("Sample table is corrupt: it lists more samples than a track can hold");
+    return new Array<number>(count).fill(uniformSize);
+  }
+  const count = readEntryCount(content, 8, 4);
+  const sizes: number[] = [];
+  for (let i = 0; i < count; i++) sizes.push(content.readUInt32BE(12 + i * 4));
+  return sizes;
+}
+
+export function readChunkOffsets(content: Buffer, large: boolean): number[] {
+  const count = readEntryCount(content, 4, large ? 8 : 4);
+  const offsets: number[] = [];
+  for (let i = 0; i < count; i++) {
+    offsets.push(large ? Number(content.readBigUInt64BE(8 + i * 8)) : content.readUInt32BE(8 + i * 4));
+  }
+  return offsets;
+}
+
+/** stsc stores runs of (first chunk, samples per chunk, description); each run lasts until the next one starts. */
+function expandChunkRuns(content: Buffer, chunkCount: number): { samples: number[]; descriptions: number[] } {
+  const runCount = readEntryCount(content, 4, 12);
+  const samples: number[] = [];
+  const descriptions: number[] = [];
+  for (let run = 0; run < runCount; run++) {
+    const firstChunk = content.readUInt32BE(8 + run * 12);
+    const nextFirstChunk = run + 1 < runCount ? content.readUInt32BE(8 + (run + 1) * 12) : chunkCount + 1;
+    for (let chunk = firstChunk; chunk < nextFirstChunk && chunk <= chunkCount; chunk++) {
+      samples[chunk - 1] = content.readUInt32BE(12 + run * 12);
+      descriptions[chunk - 1] = content.readUInt32BE(16 + run * 12);
+    }
+  }
+  return { samples, descriptions };
+}
+
+/** stts and ctts are both run-length lists of (count, value) pairs, covering sampleCount samples between them. */
+function expandRuns(content: Buffer, signed: boolean, sampleCount: number): number[] {
+  const runCount = readEntryCount(content, 4, 8);
+  const values: number[] = [];
+  for (let run = 0; run < runCount; run++) {
+    const count = content.readUInt32BE(8 + run * 8);
+    if (count > sampleCount - values.length) {
+      throw new Error("Sample table is corrupt: its timing covers more samples than the track has");
+    }
+    const value = signed ? content.readInt32BE(12 + run * 8) : content.readUInt32BE(12 + run * 8);
+    for (let i = 0; i < count; i++) values.push(value);
+  }
+  return values;
+}
+
+function readSyncSamples(content: Buffer): number[] {
+  const count = readEntryCount(content, 4, 4);
+  const samples: number[] = [];
+  for (let i = 0; i < count; i++) samples.push(content.readUInt32BE(8 + i * 4) - 1);
+  return samples;
+}
+
+/** Reads sample sizes and chunk placement from a track's stbl. */
+export function readSampleTable(buffer: Buffer, stbl: Box): SampleTable {
+  const stsz = findBox(buffer, stbl, ["stsz"]);
+  const stsc = findBox(buffer, stbl, ["stsc"]);
+  const stco = findBox(buffer, stbl, ["stco"]);
+  const co64 = stco ? null : findBox(buffer, stbl, ["co64"]);
+  if (!stsz || !stsc || (!stco && !co64)) {
+    throw new Error("Track has no sample table; fragmented MP4 is not supported");
+  }
+
+  const chunkOffsets = readChunkOffsets(boxContent(buffer, (stco ?? co64)!), !stco);
+  const chunkRuns = expandChunkRuns(boxContent(buffer, stsc), chunkOffsets.length);
+  const stts = findBox(buffer, stbl, ["stts"]);
+  const ctts = findBox(buffer, stbl, ["ctts"]);
+  const stss = findBox(buffer, stbl, ["stss"]);
+  const cttsVersion = ctts ? buffer[ctts.start + ctts.headerSize] : 0;
+  const sampleSizes = readSampleSizes(boxContent(buffer, stsz));
+  return {
+    sampleSizes,
+    chunkOffsets,
+    samplesPerChunk: chunkRuns.samples,
+    descriptionPerChunk: chunkRuns.descriptions,
+    sampleDeltas: stts ? expandRuns(boxContent(buffer, stts), false, sampleSizes.length) : [],
+    compositionOffsets: ctts ? expandRuns(boxContent(buffer, ctts), cttsVersion === 1, sampleSizes.length) : undefined,
+    cttsVersion,
+    syncSamples: stss ? readSyncSamples(boxContent(buffer, stss)) : undefined,
+  };
+}
+
+/** Where each chunk sits in the source and how many bytes it spans. */
+export function chunkLayout(table: SampleTable): ChunkLayout[] {
+  const chunks: ChunkLayout[] = [];
+  let sample = 0;
+  table.chunkOffsets.forEach((offset, i) => {
+    const sampleCount = table.samplesPerChunk[i] ?? 0;
+    if (sampleCount > table.sampleSizes.length - sample) {
+      throw new Error("Sample table is inconsistent: chunks and sample sizes disagree");
+    }
+    let size = 0;
+    for (let j = 0; j < sampleCount; j++) size += table.sampleSizes[sample + j] ?? 0;
+    chunks.push({ offset, size, firstSample: sample, sampleCount });
+    sample += sampleCount;
+  });
+  if (sample !== table.sampleSizes.length) {
+    throw new Error("Sample table is inconsistent: chunks and sample sizes disagree");
+  }
+  return chunks;
+}
+
+/** Run-length encodes values into the (count, value) pairs stts and ctts use. */
+function writeRuns(type: string, version: number, values: number[]): Buffer {
+  const runs: Array<[number, number]> = [];
+  values.forEach((value) => {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === value) last[0]++;
+    else runs.push([1, value]);
+  });
+  const table = Buffer.alloc(4 + runs.length * 8);
+  table.writeUInt32BE(runs.length, 0);
+  runs.forEach(([count, value], i) => {
+    table.writeUInt32BE(count, 4 + i * 8);
+    if (value < 0) table.writeInt32BE(value, 8 + i * 8);
+    else table.writeUInt32BE(value, 8 + i * 8);
+  });
+  return writeFullBox(type, version, 0, table);
+}
+
+export function writeTimeToSample(deltas: number[]): Buffer {
+  return writeRuns("stts", 0, deltas);
+}
+
+export function writeCompositionOffsets(offsets: number[], version: number): Buffer {
+  return writeRuns("ctts", version, offsets);
+}
+
+/** stss from 0-based sample indexes. */
+export function writeSyncSamples(samples: number[]): Buffer {
+  const table = Buffer.alloc(4 + samples.length * 4);
+  table.writeUInt32BE(samples.length, 0);
+  samples.forEach((sample, i) => table.writeUInt32BE(sample + 1, 4 + i * 4));
+  return writeFullBox("stss", 0, 0, table);
+}
+
+export function writeSampleSizes(sizes: number[]): Buffer {
+  const table = Buffer.alloc(8 + sizes.length * 4);
+  table.writeUInt32BE(0, 0);
+  table.writeUInt32BE(sizes.length, 4);
+  sizes.forEach((size, i) => table.writeUInt32BE(size, 8 + i * 4));
+  return writeFullBox("stsz", 0, 0, table);
+}
+
+/** stsc with a new run wherever the samples per chunk or the sample description changes. */
+export function writeSampleToChunk(samplesPerChunk: number[], descriptionPerChunk: number[]): Buffer {
+  const runs: Array<[number, number, number]> = [];
+  samplesPerChunk.forEach((samples, i) => {
+    const last = runs[runs.length - 1];
+    if (!last || last[1] !== samples || last[2] !== descriptionPerChunk[i]) {
+      runs.push([i + 1, samples, descriptionPerChunk[i]]);
+    }
+  });
+  const table = Buffer.alloc(4 + runs.length * 12);
+  table.writeUInt32BE(runs.length, 0);
+  runs.forEach((run, i) => run.forEach((value, j) => table.writeUInt32BE(value, 4 + i * 12 + j * 4)));
+  return writeFullBox("stsc", 0, 0, table);
+}
@@ -0,0 +1,75 @@
+import { type Box, CONTAINER_BOXES, childBoxes } from "./boxes";
+
+/**
+ * Box header for a payload of `payloadSize` bytes, with a 64-bit size past
+ * 4 GiB. Used alone for boxes whose payload is streamed, such as mdat.
+ */
+export function writeBoxHeader(type: string, payloadSize: number): Buffer {
+  if (payloadSize + 8 <= 0xffffffff) {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(payloadSize + 8, 0);
+    header.write(type, 4, "latin1");
+    return header;
+  }
+  const header = Buffer.alloc(16);
+  header.writeUInt32BE(1, 0);
+  header.write(type, 4, "latin1");
+  header.writeBigUInt64BE(BigInt(payloadSize + 16), 8);
+  return header;
+}
+
+export function writeBox(type: string, ...payloads: Buffer[]): Buffer {
+  const payloadSize = payloads.reduce((sum, payload) => sum + payload.length, 0);
+  return Buffer.concat([writeBoxHeader(type, payloadSize), ...payloads]);
+}
+
+/** A box whose payload starts with the one-byte version and three-byte flags. */
+export function writeFullBox(type: string, version: number, flags: number, ...payloads: Buffer[]): Buffer {
+  const versionAndFlags = Buffer.alloc(4);
+  versionAndFlags.writeUInt32BE(((version & 0xff) << 24) | (flags & 0xffffff), 0);
+  return writeBox(type, versionAndFlags, ...payloads);
+}
+
+/** Copy of a full box with a big-endian field at `fieldOffset` (from the payload start) overwritten. */
+export function patchField(buffer: Buffer, box: Box, fieldOffset: number, value: number, width: 4 | 8): Buffer {
+  const copy = Buffer.from(buffer.subarray(box.start, box.start + box.size));
+  const at = box.headerSize + fieldOffset;
+  if (width === 8) copy.writeBigUInt64BE(BigInt(value), at);
+  else copy.writeUInt32BE(value, at);
+  return copy;
+}
+
+/**
+ * What to do with one child while rebuilding a container: a Buffer replaces
+ * it, null drops it, undefined keeps it (descending into nested containers).
+ */
+export type BoxTransform = (child: Box) => Buffer | null | undefined;
+
+/** Re-serialises `box` with `transform` applied to every descendant. */
+export function rebuildBox(buffer: Buffer, box: Box, transform: BoxTransform): Buffer {
+  const children: Buffer[] = [];
+  for (const child of childBoxes(buffer, box)) {
+    const replacement = transform(child);
+    if (replacement === null) continue;
+    if (replacement) {
+      children.push(replacement);
+    } else if (CONTAINER_BOXES.has(child.type)) {
+      children.push(rebuildBox(buffer, child, transform));
+    } else {
+      children.push(buffer.subarray(child.start, child.start + child.size));
+    }
+  }
+  return writeBox(box.type, ...children);
+}
+
+/** stco when every offset fits in 32 bits, co64 otherwise. */
+export function writeChunkOffsets(offsets: number[]): Buffer {
+  const large = offsets.some((offset) => offset > 0xffffffff);
+  const table = Buffer.alloc(4 + offsets.length * (large ? 8 : 4));
+  table.writeUInt32BE(offsets.length, 0);
+  offsets.forEach((offset, i) => {
+    if (large) table.writeBigUInt64BE(BigInt(offset), 4 + i * 8);
+    else table.writeUInt32BE(offset, 4 + i * 4);
+  });
+  return writeFullBox(large ? "co64" : "stco", 0, 0, table);
+}
@@ -0,0 +1,62 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { readGraphqlRequest, startStubServer, type StubServer } from "./stub-server";
+
+let music: typeof import("./music");
+let stub: StubServer;
+let operations: Array<Record<string, string>> = [];
+
+function feed(id: string) {
+  return { author: { id: "u1", name: "Author" }, photo: { id, caption: `Video ${id}`, photoUrl: `https://cdn.example/${id}.mp4` } };
+}
+
+/** A server-rendered music page with the track and the first video using it. */
+function musicPage(): string {
+  const state = {
+    music: { id: "m1", name: "Theme", artist: "Band", audioUrls: [{ url: "https://cdn.example/m1.m4a" }] },
+    photo: { id: "a1", caption: "Video a1", photoUrl: "https://cdn.example/a1.mp4", author: { name: "Author" } },
+    pcursor: "p2",
+  };
+  return `<html><script>window.__APOLLO_STATE__=${JSON.stringify(state)};</script></html>`;
+}
+
+before(async () => {
+  stub = await startStubServer(async (req, res) => {
+    const url = req.url || "/";
+    if (req.method === "POST" && url === "/graphql") {
+      const { variables } = await readGraphqlRequest(req);
+      operations.push(variables);
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ data: { visionMusicPhotoList: { result: 1, pcursor: "no_more", feeds: [feed("b1")] } } }));
+    } else if (url.startsWith("/music/m1")) {
+      res.setHeader("Content-Type", "text/html");
+      res.end(musicPage());
+    } else {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+  // graphql.ts reads these when it loads.
+  process.env.KUAISHOU_GRAPHQL_URL = `${stub.url}/graphql`;
+  process.env.KUAISHOU_COOKIE = "did=test";
+  music = await import("./music");
+});
+
+after(() => stub.close());
+
+test("reads the first page from the music page and later pages straight from GraphQL", async () => {
+  const url = `${stub.url}/music/m1?musicType=9`;
+
+  const first = await music.listMusicVideos(url);
+  assert.equal(first.music?.name, "Theme");
+  assert.deepEqual(first.videos.map((video) => video.video.title), ["Video a1"]);
+  assert.equal(first.pcursor, "p2");
+  assert.equal(operations.length, 0);
+
+  const second = await music.listMusicVideos(url, first.pcursor);
+  assert.equal(second.music, undefined);
+  assert.deepEqual(second.videos.map((video) => video.video.title), ["Video b1"]);
+  assert.equal(second.hasMore, false);
+  assert.deepEqual(operations, [{ musicId: "m1", musicType: "9", pcursor: "p2" }]);
+  assert.deepEqual(stub.requests.filter((path) => path.startsWith("/music/")), ["/music/m1?musicType=9"], "the music page is loaded once");
+});
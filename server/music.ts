@@ -0,0 +1,144 @@
+import type { ListedVideo, MusicInfo } from "@shared/schema";
+import { fetchWithRedirects } from "./fetcher";
+import { AUTHOR_FIELDS, PHOTO_FIELDS, queryGraphql } from "./graphql";
+import {
+  absoluteUrl,
+  asString,
+  buildApolloIndex,
+  findAuthorObject,
+  findPageStates,
+  findPhotoObjects,
+  firstUrl,
+  mapSoundtrack,
+  walkObjects,
+  type StateObject,
+} from "./page-state";
+import { listedVideoFromPhoto } from "./profile";
+
+const MUSIC_QUERY = `
+query visionMusicPhotoList($musicId: String, $musicType: String, $pcursor: String) {
+  visionMusicPhotoList(musicId: $musicId, musicType: $musicType, pcursor: $pcursor) {
+    result
+    pcursor
+    feeds {
+      author { ${AUTHOR_FIELDS} }
+      photo { ${PHOTO_FIELDS} }
+    }
+  }
+}`;
+
+interface MusicPhotoList {
+  visionMusicPhotoList: {
+    result: number;
+    pcursor: string;
+    feeds: Array<{ author?: StateObject; photo?: StateObject }> | null;
+  } | null;
+}
+
+export interface MusicListing {
+  /** The track itself; only the first page carries it. */
+  music?: MusicInfo;
+  videos: ListedVideo[];
+  pcursor?: string;
+  hasMore: boolean;
+}
+
+export function parseMusicId(url: string): { musicId: string; musicType?: string } | null {
+  const match = url.match(/\/music\/([^/?#]+)/);
+  if (!match) return null;
+  let musicType: string | undefined;
+  try {
+    musicType = new URL(url).searchParams.get("musicType") || undefined;
+  } catch {
+  }
+  return { musicId: decodeURIComponent(match[1]), musicType };
+}
+
+function hasMorePages(pcursor: string | undefined): boolean {
+  return Boolean(pcursor) && pcursor !== "no_more";
+}
+
+/** The music object is the one carrying this ID, else any named object with an audio URL. */
+function findMusicObject(root: unknown, musicId: string): StateObject | null {
+  const objects = walkObjects(root).filter((object) => mapSoundtrack(object)?.audioUrl);
+  return objects.find((object) => asString(object.id) === musicId || asString(object.musicId) === musicId) ?? objects[0] ?? null;
+}
+
+function mapMusicInfo(musicId: string, object: StateObject | null): MusicInfo {
+  const soundtrack = object ? mapSoundtrack(object) : undefined;
+  const cover = object ? firstUrl(object.coverUrls) || firstUrl(object.coverUrl) || firstUrl(object.avatarUrls) : "";
+  return {
+    musicId,
+    name: soundtrack?.name || "Kuaishou Music",
+    artist: soundtrack?.artist,
+    audioUrl: soundtrack?.audioUrl,
+    cover: cover ? absoluteUrl(cover) : undefined,
+  };
+}
+
+/** The server-rendered music page: the track itself plus the first page of videos using it. */
+async function readMusicPage(url: string, musicId: string): Promise<MusicListing> {
+  const response = await fetchWithRedirects(url);
+  const html = await response.text();
+  let music: StateObject | null = null;
+  const videos: ListedVideo[] = [];
+  let pcursor: string | undefined;
+
+  for (const state of findPageStates(html)) {
+    music = music ?? findMusicObject(state.data, musicId);
+    const index = buildApolloIndex(state.data);
+    for (const photo of findPhotoObjects(state.data)) {
+      const listed = listedVideoFromPhoto(photo, findAuthorObject(photo, index), index);
+      if (listed && !videos.some((video) => video.url === listed.url)) videos.push(listed);
+    }
+    pcursor = pcursor ?? walkObjects(state.data).map((object) => asString(object.pcursor)).find(Boolean);
+  }
+
+  return { music: mapMusicInfo(musicId, music), videos, pcursor, hasMore: hasMorePages(pcursor) };
+}
+
+async function listViaGraphql(musicId: string, musicType: string | undefined, pcursor: string, referer: string) {
+  const data = await queryGraphql<MusicPhotoList>(
+    "visionMusicPhotoList",
+    MUSIC_QUERY,
+    { musicId, musicType, pcursor },
+    referer,
+  );
+  const list = data.visionMusicPhotoList;
+  if (!list || list.result !== 1) {
+    throw new Error("Kuaishou refused the music listing request");
+  }
+
+  const videos: ListedVideo[] = [];
+  for (const feed of list.feeds ?? []) {
+    if (!feed.photo) continue;
+    const listed = listedVideoFromPhoto(feed.photo, feed.author);
+    if (listed) videos.push(listed);
+  }
+  return { videos, pcursor: list.pcursor, hasMore: hasMorePages(list.pcursor) };
+}
+
+/**
+ * One page of videos using a sound. The first page comes from the music page
+ * itself when it is server-rendered, else from GraphQL. Later pages go straight
+ * to GraphQL with the music ID from the URL and the cursor the previous page
+ * returned, without loading the music page again.
+ */
+export async function listMusicVideos(url: string, pcursor?: string): Promise<MusicListing> {
+  const parsed = parseMusicId(url);
+  if (!parsed) {
+    throw new Error("Not a Kuaishou music URL");
+  }
+
+  if (pcursor) {
+    return listViaGraphql(parsed.musicId, parsed.musicType, pcursor, url);
+  }
+
+  const page = await readMusicPage(url, parsed.musicId);
+  if (page.videos.length > 0) {
+    return page;
+  }
+
+  const first = await listViaGraphql(parsed.musicId, parsed.musicType, "", url);
+  return { music: page.music, ...first };
+}
@@ -0,0 +1,561 @@
+import type { AuthorInfo, PostImage, Soundtrack, VideoId, VideoInfo, VideoStats, VideoVariant } from "@shared/schema";
+import { rankSources } from "./source-ranking";
+
+export type StateObject = Record<string, unknown>;
+
+export interface PageState {
+  source: string;
+  data: unknown;
+}
+
+const STATE_GLOBALS = [
+  "__APOLLO_STATE__",
+  "INIT_STATE",
+  "__INITIAL_STATE__",
+];
+
+const PHOTO_URL_KEYS = ["srcNoMark", "photoUrl", "mainMvUrls", "photoH265Url", "h265Url"];
+const PHOTO_HINT_KEYS = ["caption", "coverUrl", "coverUrls", "duration", "photoId", "likeCount", "timestamp"];
+
+function readBalancedJson(text: string, start: number): string | null {
+  const open = text[start];
+  if (open !== "{" && open !== "[") return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "{" || char === "[") depth++;
+    else if (char === "}" || char === "]") {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+function parseLooseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // INIT_STATE and friends are JS literals, not strict JSON: `undefined` shows up as a value.
+    return JSON.parse(raw.replace(/:\s*undefined\b/g, ":null").replace(/,\s*undefined\b/g, ",null"));
+  }
+}
+
+/**
+ * Finds the JSON state blobs Kuaishou pages embed for client-side hydration
+ * (window.__APOLLO_STATE__, window.INIT_STATE, __NEXT_DATA__, ...) and decodes them.
+ */
+export function findPageStates(html: string): PageState[] {
+  const states: PageState[] = [];
+
+  for (const name of STATE_GLOBALS) {
+    const assignment = new RegExp(`(?:window\\.|var\\s+|let\\s+|const\\s+)${name.replace(/\$/g, "\\$")}\\s*=\\s*`, "g");
+    let match;
+    while ((match = assignment.exec(html)) !== null) {
+      const raw = readBalancedJson(html, match.index + match[0].length);
+      if (!raw) continue;
+      try {
+        states.push({ source: name, data: parseLooseJson(raw) });
+      } catch {
+      }
+    }
+  }
+
+  const nextDataPattern = /<script[^>]*id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let nextMatch;
+  while ((nextMatch = nextDataPattern.exec(html)) !== null) {
+    try {
+      states.push({ source: "__NEXT_DATA__", data: JSON.parse(nextMatch[1]) });
+    } catch {
+    }
+  }
+
+  return states;
+}
+
+export function isStateObject(value: unknown): value is StateObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Every object reachable from `root`, depth first, each visited once. */
+export function walkObjects(root: unknown): StateObject[] {
+  const found: StateObject[] = [];
+  const seen = new Set<unknown>();
+  const stack: unknown[] = [root];
+
+  while (stack.length > 0) {
+    const value = stack.pop();
+    if (typeof value !== "object" || value === null || seen.has(value)) continue;
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      for (let i = value.length - 1; i >= 0; i--) stack.push(value[i]);
+      continue;
+    }
+
+    found.push(value as StateObject);
+    const children = Object.values(value);
+    for (let i = children.length - 1; i >= 0; i--) stack.push(children[i]);
+  }
+
+  return found;
+}
+
+/**
+ * Apollo normalises entities into a flat map and links them with
+ * `{ type: "id", id: "VisionVideoDetailAuthor:xyz" }` references.
+ */
+export function buildApolloIndex(root: unknown): Map<string, StateObject> {
+  const index = new Map<string, StateObject>();
+  for (const object of walkObjects(root)) {
+    for (const [key, value] of Object.entries(object)) {
+      if (isStateObject(value) && /^[A-Za-z]+:/.test(key)) {
+        index.set(key, value);
+      }
+    }
+  }
+  return index;
+}
+
+export function deref(value: unknown, index: Map<string, StateObject>): unknown {
+  if (isStateObject(value) && value.type === "id" && typeof value.id === "string") {
+    return index.get(value.id) ?? value;
+  }
+  if (isStateObject(value) && typeof value.__ref === "string") {
+    return index.get(value.__ref) ?? value;
+  }
+  return value;
+}
+
+export function asString(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  return "";
+}
+
+/** Kuaishou spells URLs several ways: plain strings, `[{ cdn, url }]` lists and `{ url }` wrappers. */
+export function firstUrl(value: unknown): string {
+  if (typeof value === "string") return /^(https?:)?\/\//.test(value) ? value : "";
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const url = firstUrl(item);
+      if (url) return url;
+    }
+    return "";
+  }
+  if (isStateObject(value)) {
+    return firstUrl(value.url) || firstUrl(value.src);
+  }
+  return "";
+}
+
+export function formatDuration(milliseconds: number): string {
+  const totalSeconds = Math.round(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/** Unix times in seconds or milliseconds, or date strings, as ISO-8601. */
+export function toIsoTimestamp(value: unknown): string {
+  if (typeof value === "string" && !/^\d+$/.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? "" : date.toISOString();
+  }
+  const time = Number(value);
+  if (!time || time < 0) return "";
+  return new Date(time < 1e12 ? time * 1000 : time).toISOString();
+}
+
+function matchAllGroups(text: string, pattern: RegExp): string[] {
+  const values: string[] = [];
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    if (!values.includes(match[1])) values.push(match[1]);
+  }
+  return values;
+}
+
+function tagNames(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((tag) => (isStateObject(tag) ? asString(tag.name) || asString(tag.tagName) || asString(tag.tag_name) : asString(tag)))
+    .map((name) => name.replace(/^#/, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Description, hashtags and mentions from a caption. Captions carry tags
+ * inline (`#tag`, `#tag#`) and mentions as `@name(O3x...)`; structured tag
+ * lists, when the page has one, are merged in.
+ */
+export function mapCaption(caption: string, tagList?: unknown): Partial<VideoInfo> {
+  const fields: Partial<VideoInfo> = {};
+  const description = caption.trim();
+  if (description) fields.description = description;
+
+  const hashtags = matchAllGroups(description, /#([^\s#@]+)/g);
+  for (const name of tagNames(tagList)) {
+    if (!hashtags.includes(name)) hashtags.push(name);
+  }
+  if (hashtags.length > 0) fields.hashtags = hashtags;
+
+  const mentions = matchAllGroups(description, /@([^\s#@(]+)(?:\([^)]*\))?/g);
+  if (mentions.length > 0) fields.mentions = mentions;
+
+  return fields;
+}
+
+export function mapSoundtrack(value: unknown): Soundtrack | undefined {
+  if (!isStateObject(value)) return undefined;
+  const name = (asString(value.name) || asString(value.musicName) || asString(value.title)).trim();
+  if (!name) return undefined;
+  const artist = asString(value.artist) || asString(value.artistName) || asString(value.artist_name) || asString(value.singer);
+  const audioUrl = firstUrl(value.audioUrls) || firstUrl(value.audio_urls) || firstUrl(value.audioUrl) || firstUrl(value.url);
+  return {
+    name,
+    artist: artist.trim() || undefined,
+    audioUrl: audioUrl ? absoluteUrl(audioUrl) : undefined,
+  };
+}
+
+const COUNT_UNITS: Record<string, number> = { k: 1e3, w: 1e4, "万": 1e4, m: 1e6, "亿": 1e8 };
+
+/** Counts arrive as numbers or display strings such as `1.2w`, `3.4万` or `12k`. */
+export function parseCount(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? value : undefined;
+  if (typeof value !== "string") return undefined;
+  const match = value.replace(/[,\s+]/g, "").match(/^(\d+(?:\.\d+)?)(k|w|万|m|亿)?$/i);
+  if (!match) return undefined;
+  const unit = match[2] ? COUNT_UNITS[match[2].toLowerCase()] : 1;
+  return Math.round(Number(match[1]) * unit);
+}
+
+const STATS_KEYS: Record<keyof VideoStats, string[]> = {
+  views: ["viewCount", "view_count", "playCount", "play_count"],
+  likes: ["realLikeCount", "likeCount", "like_count"],
+  comments: ["commentCount", "comment_count"],
+  shares: ["shareCount", "share_count", "forwardCount", "forward_count"],
+};
+
+/** View, like, comment and share counts from a photo or feed object, in either naming style. */
+export function mapStats(object: StateObject): VideoStats | undefined {
+  const stats: VideoStats = {};
+  for (const field of Object.keys(STATS_KEYS) as Array<keyof VideoStats>) {
+    for (const key of STATS_KEYS[field]) {
+      const count = parseCount(object[key]);
+      if (count !== undefined) {
+        stats[field] = count;
+        break;
+      }
+    }
+  }
+  return Object.keys(stats).length > 0 ? stats : undefined;
+}
+
+const FOLLOWER_KEYS = ["fan", "fans", "fansCount", "fans_count", "followerCount", "follower_count"];
+const VERIFIED_KEYS = ["verified", "isVerified", "verifiedStatus", "verified_status", "userVerify"];
+
+function isVerified(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value > 0;
+  if (isStateObject(value)) return Boolean(value.verified ?? value.type);
+  return undefined;
+}
+
+/**
+ * The creator as the page describes them. Web pages nest counts under
+ * `counts`/`ownerCount`; app-style feeds use snake_case keys throughout.
+ */
+export function mapAuthorInfo(author: StateObject, platform: VideoId["platform"]): AuthorInfo | undefined {
+  const name = (asString(author.name) || asString(author.userName) || asString(author.user_name) || asString(author.kwai_id)).trim();
+  if (!name) return undefined;
+
+  const info: AuthorInfo = { name };
+  const userId = asString(author.id) || asString(author.userId) || asString(author.user_id) || asString(author.eid);
+  if (userId) info.userId = userId;
+
+  const avatar =
+    firstUrl(author.headerUrl) ||
+    firstUrl(author.headurl) ||
+    firstUrl(author.headerUrls) ||
+    firstUrl(author.head_url) ||
+    firstUrl(author.headurls) ||
+    firstUrl(author.avatar);
+  if (avatar) info.avatar = absoluteUrl(avatar);
+
+  const kwaiHandle = asString(author.kwai_id) || asString(author.kwaiId);
+  if (platform === "kwai" && kwaiHandle) {
+    info.profileUrl = `https://www.kwai.com/@${encodeURIComponent(kwaiHandle)}`;
+  } else if (platform === "kuaishou" && userId) {
+    info.profileUrl = `https://www.kuaishou.com/profile/${encodeURIComponent(userId)}`;
+  }
+
+  const counts = [author, author.counts, author.ownerCount].filter(isStateObject);
+  for (const key of FOLLOWER_KEYS) {
+    const followers = counts.map((object) => parseCount(object[key])).find((count) => count !== undefined);
+    if (followers !== undefined) {
+      info.followers = followers;
+      break;
+    }
+  }
+
+  for (const key of VERIFIED_KEYS) {
+    const verified = isVerified(author[key]);
+    if (verified !== undefined) {
+      info.verified = verified;
+      break;
+    }
+  }
+
+  return info;
+}
+
+function scorePhoto(object: StateObject): number {
+  let score = 0;
+  for (const key of PHOTO_URL_KEYS) {
+    if (firstUrl(object[key])) score += 3;
+  }
+  if (isStateObject(object.manifest)) score += 3;
+  if (findAtlas(object)) score += 3;
+  if (score === 0) return 0;
+  for (const key of PHOTO_HINT_KEYS) {
+    if (key in object) score += 1;
+  }
+  return score;
+}
+
+/** Every photo-like object in a listing page's state (profile, music, topic feeds). */
+export function findPhotoObjects(root: unknown): StateObject[] {
+  return walkObjects(root).filter((object) => scorePhoto(object) >= 4);
+}
+
+export function findPhotoObject(root: unknown): StateObject | null {
+  let best: StateObject | null = null;
+  let bestScore = 0;
+  for (const object of walkObjects(root)) {
+    const score = scorePhoto(object);
+    if (score > bestScore) {
+      best = object;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function findAuthorObject(photo: StateObject, index: Map<string, StateObject>): StateObject | null {
+  for (const key of ["author", "user", "userInfo", "owner"]) {
+    const candidate = deref(photo[key], index);
+    if (isStateObject(candidate) && (candidate.name || candidate.userName || candidate.user_name)) {
+      return candidate;
+    }
+  }
+  for (const [key, object] of Array.from(index.entries())) {
+    if (/Author:/.test(key) && object.name) return object;
+  }
+  return null;
+}
+
+export function absoluteUrl(url: string): string {
+  return url.startsWith("//") ? `https:${url}` : url;
+}
+
+function detectCodec(hint: string): VideoVariant["codec"] {
+  if (/hevc|h265|hvc1|hev1/i.test(hint)) return "hevc";
+  if (/avc|h264/i.test(hint)) return "h264";
+  return "unknown";
+}
+
+function asNumber(value: unknown): number | undefined {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+export function resolutionLabel(width?: number, height?: number): string {
+  if (!width || !height) return "";
+  return `${Math.min(width, height)}p`;
+}
+
+function manifestVariants(manifest: unknown, codecHint: string): VideoVariant[] {
+  if (!isStateObject(manifest) || !Array.isArray(manifest.adaptationSet)) return [];
+
+  const variants: VideoVariant[] = [];
+  for (const adaptation of manifest.adaptationSet) {
+    if (!isStateObject(adaptation) || !Array.isArray(adaptation.representation)) continue;
+    for (const representation of adaptation.representation) {
+      if (!isStateObject(representation)) continue;
+      const url = firstUrl(representation.url) || firstUrl(representation.backupUrl);
+      if (!url) continue;
+      const width = asNumber(representation.width);
+      const height = asNumber(representation.height);
+      const codec = detectCodec(`${asString(representation.codecs)} ${asString(representation.codec)} ${codecHint} ${url}`);
+      variants.push({
+        url: absoluteUrl(url),
+        resolution: asString(representation.qualityLabel) || resolutionLabel(width, height) || asString(representation.qualityType),
+        width,
+        height,
+        codec: codec === "unknown" ? "h264" : codec,
+        bitrate: asNumber(representation.avgBitrate) ?? asNumber(representation.maxBitrate),
+        watermark: false,
+      });
+    }
+  }
+  return variants;
+}
+
+/**
+ * Every playable representation the photo object exposes: the adaptive
+ * manifests (H.264 and HEVC) plus the flat URL fields, deduplicated by URL
+ * and ranked best first.
+ */
+export function collectVariants(photo: StateObject): VideoVariant[] {
+  const width = asNumber(photo.width) ?? (isStateObject(photo.ext_params) ? asNumber(photo.ext_params.w) : undefined);
+  const height = asNumber(photo.height) ?? (isStateObject(photo.ext_params) ? asNumber(photo.ext_params.h) : undefined);
+
+  const variants = [
+    ...manifestVariants(photo.manifest, ""),
+    ...manifestVariants(photo.manifestH265, "hevc"),
+  ];
+
+  for (const key of PHOTO_URL_KEYS) {
+    const url = firstUrl(photo[key]);
+    if (!url) continue;
+    variants.push({
+      url: absoluteUrl(url),
+      resolution: resolutionLabel(width, height) || "Original",
+      width,
+      height,
+      codec: /h265/i.test(key) ? "hevc" : detectCodec(url) === "hevc" ? "hevc" : "h264",
+      watermark: key !== "srcNoMark",
+    });
+  }
+
+  return rankSources(variants);
+}
+
+function findAtlas(photo: StateObject): StateObject | null {
+  if (isStateObject(photo.atlas)) return photo.atlas;
+  if (isStateObject(photo.ext_params) && isStateObject(photo.ext_params.atlas)) return photo.ext_params.atlas;
+  return null;
+}
+
+function atlasHosts(atlas: StateObject): string[] {
+  const hosts: string[] = [];
+  for (const entry of [atlas.cdn, atlas.cdnList].flat()) {
+    const host = isStateObject(entry) ? asString(entry.cdn) : asString(entry);
+    if (host) hosts.push(host);
+  }
+  return hosts;
+}
+
+/** Atlas paths are host-relative (`/ufile/atlas/...`) and joined with one of the listed CDNs. */
+function atlasUrl(path: string, hosts: string[]): string {
+  if (/^(https?:)?\/\//.test(path)) return absoluteUrl(path);
+  if (!path || hosts.length === 0) return "";
+  return `https://${hosts[0]}${path.startsWith("/") ? "" : "/"}${path}`;
+}
+
+/** The slides of a photo/atlas post, in display order. */
+export function collectAtlasImages(photo: StateObject): PostImage[] {
+  const atlas = findAtlas(photo);
+  if (atlas) {
+    const hosts = atlasHosts(atlas);
+    const list = Array.isArray(atlas.list) ? atlas.list : [];
+    const sizes = Array.isArray(atlas.size) ? atlas.size : [];
+    return list
+      .map((path, i) => {
+        const size = isStateObject(sizes[i]) ? sizes[i] as StateObject : {};
+        return {
+          url: atlasUrl(asString(path), hosts),
+          width: asNumber(size.w),
+          height: asNumber(size.h),
+        };
+      })
+      .filter((image) => image.url);
+  }
+
+  const images = Array.isArray(photo.images) ? photo.images : Array.isArray(photo.imageUrls) ? photo.imageUrls : [];
+  return images
+    .map((image) => ({
+      url: absoluteUrl(firstUrl(image)),
+      width: isStateObject(image) ? asNumber(image.width) : undefined,
+      height: isStateObject(image) ? asNumber(image.height) : undefined,
+    }))
+    .filter((image) => image.url);
+}
+
+function atlasMusicUrl(photo: StateObject): string {
+  const atlas = findAtlas(photo);
+  if (!atlas) return "";
+  return atlasUrl(firstUrl(atlas.music) || asString(atlas.music), atlasHosts(atlas));
+}
+
+export function mapPhotoToVideoInfo(photo: StateObject, index: Map<string, StateObject>): Partial<VideoInfo> {
+  const fields: Partial<VideoInfo> = {};
+
+  const variants = collectVariants(photo);
+  if (variants.length > 0) {
+    fields.variants = variants;
+    fields.videoUrl = variants[0].url;
+    fields.quality = variants[0].resolution;
+  }
+
+  const images = variants.length === 0 ? collectAtlasImages(photo) : [];
+  if (images.length > 0) {
+    fields.postType = "atlas";
+    fields.images = images;
+  }
+
+  const title = asString(photo.caption).trim() || asString(photo.title).trim();
+  if (title) fields.title = title;
+  Object.assign(fields, mapCaption(asString(photo.caption), photo.tags ?? photo.tagList));
+
+  const author = findAuthorObject(photo, index);
+  const authorName =
+    asString(author?.name) ||
+    asString(author?.userName) ||
+    asString(author?.user_name) ||
+    asString(photo.userName) ||
+    asString(photo.authorName);
+  if (authorName.trim()) fields.author = authorName.trim();
+  const authorInfo = author ? mapAuthorInfo(author, "kuaishou") : undefined;
+  if (authorInfo) fields.authorInfo = authorInfo;
+
+  const thumbnail =
+    firstUrl(photo.coverUrl) ||
+    firstUrl(photo.coverUrls) ||
+    firstUrl(photo.webpCoverUrls) ||
+    firstUrl(photo.poster);
+  if (thumbnail) fields.thumbnail = absoluteUrl(thumbnail);
+
+  const soundTrack = deref(photo.soundTrack ?? photo.music, index);
+  const audioUrl = isStateObject(soundTrack)
+    ? firstUrl(soundTrack.audioUrls) || firstUrl(soundTrack.audioUrl) || firstUrl(soundTrack.url)
+    : atlasMusicUrl(photo);
+  if (audioUrl) fields.audioUrl = absoluteUrl(audioUrl);
+  const music = mapSoundtrack(soundTrack);
+  if (music) fields.soundtrack = music;
+
+  if (typeof photo.duration === "number" && photo.duration > 0) {
+    fields.duration = formatDuration(photo.duration);
+  }
+
+  const publishedAt = toIsoTimestamp(photo.timestamp);
+  if (publishedAt) fields.publishedAt = publishedAt;
+
+  const stats = mapStats(isStateObject(photo.counts) ? { ...photo, ...photo.counts } : photo);
+  if (stats) fields.stats = stats;
+
+  const photoId = asString(photo.id) || asString(photo.photoId);
+  if (photoId) fields.videoId = { platform: "kuaishou", photoId };
+
+  return fields;
+}
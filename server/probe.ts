@@ -0,0 +1,220 @@
+import type { VideoInfo, VideoVariant } from "@shared/schema";
+import { getHeaders } from "./fetcher";
+import { readBoxHeader, type Box } from "./mp4/boxes";
+import { parseMovie } from "./mp4/moov";
+import { formatDuration, resolutionLabel } from "./page-state";
+
+const HEAD_BYTES = 64 * 1024;
+const MAX_MOOV_BYTES = 16 * 1024 * 1024;
+const MAX_TOP_LEVEL_BOXES = 16;
+const PROBE_TIMEOUT_MS = 8000;
+const MAX_PROBED_VARIANTS = 6;
+
+const TOP_LEVEL_TYPES = new Set(["ftyp", "styp", "moov", "mdat", "free", "skip", "wide", "uuid", "pdin", "moof", "sidx", "meta"]);
+
+export interface MediaProbe {
+  sizeBytes?: number;
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+  videoCodec?: VideoVariant["codec"];
+  audioCodec?: string;
+  /** Average bitrate over the whole file, in kbps. */
+  bitrate?: number;
+}
+
+export interface MovieBox {
+  /** The buffer the box was read into; `box.start` is relative to it. */
+  buffer: Buffer;
+  box: Box;
+}
+
+interface RangeResult {
+  buffer: Buffer;
+  totalSize?: number;
+}
+
+async function readAtMost(response: globalThis.Response, limit: number): Promise<Buffer> {
+  const reader = response.body?.getReader();
+  if (!reader) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  let length = 0;
+  while (length < limit) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(Buffer.from(value));
+    length += value.length;
+  }
+  // Servers that ignore Range send the whole file; stop reading once we have enough.
+  await reader.cancel().catch(() => {});
+  return Buffer.concat(chunks).subarray(0, limit);
+}
+
+async function fetchRange(url: string, start: number, end: number, signal: AbortSignal): Promise<RangeResult> {
+  const response = await fetch(url, {
+    headers: { ...getHeaders(url), Range: `bytes=${start}-${end}` },
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Range request failed with status ${response.status}`);
+  }
+
+  let totalSize: number | undefined;
+  const contentRange = response.headers.get("content-range");
+  const rangeTotal = contentRange?.match(/\/(\d+)\s*$/);
+  if (rangeTotal) {
+    totalSize = Number(rangeTotal[1]);
+  } else if (response.status === 200) {
+    const contentLength = response.headers.get("content-length");
+    totalSize = contentLength ? Number(contentLength) : undefined;
+    if (start > 0) {
+      throw new Error("Server does not support range requests");
+    }
+  }
+
+  return { buffer: await readAtMost(response, end - start + 1), totalSize };
+}
+
+/**
+ * Locates the moov box by walking top-level boxes, fetching only box headers
+ * and the moov itself. Handles both "fast start" files (moov before mdat) and
+ * files with the moov at the tail.
+ */
+async function locateMovieBox(url: string, head: Buffer, totalSize: number | undefined, signal: AbortSignal): Promise<MovieBox | null> {
+  let offset = 0;
+
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES; i++) {
+    if (totalSize !== undefined && offset >= totalSize) break;
+
+    let header = offset + 16 <= head.length ? readBoxHeader(head, offset) : null;
+    if (!header) {
+      const { buffer } = await fetchRange(url, offset, offset + 15, signal);
+      const remote = readBoxHeader(buffer, 0);
+      header = remote ? { ...remote, start: offset } : null;
+    }
+    if (!header || !TOP_LEVEL_TYPES.has(header.type)) break;
+
+    if (header.type === "moov") {
+      if (header.size > MAX_MOOV_BYTES) return null;
+      if (offset + header.size <= head.length) {
+        return { buffer: head, box: header };
+      }
+      const { buffer } = await fetchRange(url, offset, offset + header.size - 1, signal);
+      return { buffer, box: { ...header, start: 0 } };
+    }
+
+    offset += header.size;
+  }
+
+  return null;
+}
+
+/** The complete moov box of a remote MP4, read with range requests; null when there is none. */
+export async function fetchMovieBox(url: string, signal: AbortSignal): Promise<MovieBox | null> {
+  const { buffer: head, totalSize } = await fetchRange(url, 0, HEAD_BYTES - 1, signal);
+  return locateMovieBox(url, head, totalSize, signal);
+}
+
+function normalizeVideoCodec(fourcc: string): VideoVariant["codec"] {
+  if (fourcc === "avc1" || fourcc === "avc3") return "h264";
+  if (fourcc === "hvc1" || fourcc === "hev1") return "hevc";
+  return "unknown";
+}
+
+export async function probeMedia(url: string): Promise<MediaProbe> {
+  const signal = AbortSignal.timeout(PROBE_TIMEOUT_MS);
+  const { buffer: head, totalSize } = await fetchRange(url, 0, HEAD_BYTES - 1, signal);
+  const probe: MediaProbe = { sizeBytes: totalSize };
+
+  const movieBox = await locateMovieBox(url, head, totalSize, signal);
+  if (!movieBox) return probe;
+  const movie = parseMovie(movieBox.buffer, movieBox.box);
+
+  const video = movie.tracks.find((track) => track.handler === "vide");
+  const audio = movie.tracks.find((track) => track.handler === "soun");
+
+  if (movie.durationSeconds > 0) {
+    probe.durationSeconds = movie.durationSeconds;
+    if (totalSize) {
+      probe.bitrate = Math.round((totalSize * 8) / movie.durationSeconds / 1000);
+    }
+  }
+  if (video) {
+    probe.width = video.width;
+    probe.height = video.height;
+    probe.videoCodec = normalizeVideoCodec(video.codec);
+  }
+  if (audio) {
+    probe.audioCodec = audio.codec === "mp4a" ? "aac" : audio.codec;
+  }
+
+  return probe;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+function applyProbeToVariant(variant: VideoVariant, probe: MediaProbe): VideoVariant {
+  const width = probe.width ?? variant.width;
+  const height = probe.height ?? variant.height;
+  return {
+    ...variant,
+    width,
+    height,
+    resolution: variant.resolution === "Original" ? resolutionLabel(width, height) || variant.resolution : variant.resolution,
+    codec: probe.videoCodec && probe.videoCodec !== "unknown" ? probe.videoCodec : variant.codec,
+    bitrate: variant.bitrate ?? probe.bitrate,
+    fileSize: probe.sizeBytes ? formatFileSize(probe.sizeBytes) : variant.fileSize,
+  };
+}
+
+async function safeProbe(url: string): Promise<MediaProbe | null> {
+  try {
+    return await probeMedia(url);
+  } catch (error) {
+    console.error(`Probe failed for ${url}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Replaces page-reported (or missing) duration, size and quality with values
+ * read from the media files themselves. Probe failures leave fields untouched.
+ */
+export async function enrichWithProbe(videoInfo: VideoInfo): Promise<VideoInfo> {
+  if (!videoInfo.videoUrl || /\.m3u8(\?|$)/i.test(videoInfo.videoUrl)) {
+    return videoInfo;
+  }
+
+  const variants = videoInfo.variants ?? [];
+  const urls = Array.from(new Set([videoInfo.videoUrl, ...variants.slice(0, MAX_PROBED_VARIANTS).map((variant) => variant.url)]));
+  const probes = await Promise.all(urls.map((url) => safeProbe(url)));
+  const probeByUrl = new Map<string, MediaProbe>();
+  urls.forEach((url, index) => {
+    const probe = probes[index];
+    if (probe) probeByUrl.set(url, probe);
+  });
+
+  const enriched: VideoInfo = {
+    ...videoInfo,
+    variants: videoInfo.variants?.map((variant) => {
+      const probe = probeByUrl.get(variant.url);
+      return probe ? applyProbeToVariant(variant, probe) : variant;
+    }),
+  };
+
+  const main = probeByUrl.get(videoInfo.videoUrl);
+  if (main) {
+    if (main.durationSeconds) enriched.duration = formatDuration(main.durationSeconds * 1000);
+    if (main.sizeBytes) enriched.fileSize = formatFileSize(main.sizeBytes);
+    const quality = resolutionLabel(main.width, main.height);
+    if (quality) enriched.quality = quality;
+  }
+
+  return enriched;
+}
@@ -0,0 +1,89 @@
+import { after, before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { readGraphqlRequest, startStubServer, type StubServer } from "./stub-server";
+
+let profile: typeof import("./profile");
+let stub: StubServer;
+let cursors: string[] = [];
+let refuse = false;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 30);
+
+function feed(id: string, daysAgo: number) {
+  return {
+    author: { id: "creator", name: "Creator" },
+    photo: { id, caption: `Video ${id}`, photoUrl: `https://cdn.example/${id}.mp4`, timestamp: NOW - daysAgo * DAY_MS },
+  };
+}
+
+/** Three feed pages, newest first, one video per day. */
+const PAGES: Record<string, { feeds: object[]; pcursor: string }> = {
+  "": { feeds: [feed("a1", 0), feed("a2", 1)], pcursor: "p2" },
+  p2: { feeds: [feed("b1", 2), feed("b2", 3)], pcursor: "p3" },
+  p3: { feeds: [feed("c1", 4), feed("c2", 5)], pcursor: "no_more" },
+};
+
+before(async () => {
+  stub = await startStubServer(async (req, res) => {
+    if (req.method === "POST" && req.url === "/graphql") {
+      const { variables } = await readGraphqlRequest(req);
+      cursors.push(variables.pcursor);
+      const list = refuse ? { result: 2 } : { result: 1, ...PAGES[variables.pcursor] };
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ data: { visionProfilePhotoList: list } }));
+    } else {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+  // graphql.ts reads these when it loads.
+  process.env.KUAISHOU_GRAPHQL_URL = `${stub.url}/graphql`;
+  process.env.KUAISHOU_COOKIE = "did=test";
+  profile = await import("./profile");
+});
+
+after(() => stub.close());
+
+beforeEach(() => {
+  cursors = [];
+  refuse = false;
+});
+
+function titles(listing: { videos: Array<{ video: { title: string } }> }): string[] {
+  return listing.videos.map((video) => video.video.title);
+}
+
+test("stops at maxCount with a cursor that resumes mid-page without skipping videos", async () => {
+  const first = await profile.listProfileVideos("creator", { maxCount: 3 });
+  assert.deepEqual(titles(first), ["Video a1", "Video a2", "Video b1"]);
+  assert.equal(first.profile.name, "Creator");
+  assert.equal(first.hasMore, true);
+
+  const second = await profile.listProfileVideos("creator", { maxCount: 3, pcursor: first.pcursor });
+  assert.deepEqual(titles(second), ["Video b2", "Video c1", "Video c2"]);
+  assert.equal(second.pcursor, undefined);
+  assert.equal(second.hasMore, false);
+  assert.deepEqual(cursors, ["", "p2", "p2", "p3"]);
+});
+
+test("a limit reached on the last feed of a page continues from the next page", async () => {
+  const listing = await profile.listProfileVideos("creator", { maxCount: 2 });
+  assert.deepEqual(titles(listing), ["Video a1", "Video a2"]);
+
+  const next = await profile.listProfileVideos("creator", { maxCount: 2, pcursor: listing.pcursor });
+  assert.deepEqual(titles(next), ["Video b1", "Video b2"]);
+  assert.deepEqual(cursors, ["", "p2"]);
+});
+
+test("stops with no cursor once the feed is older than the date range", async () => {
+  const listing = await profile.listProfileVideos("creator", { from: new Date(NOW - 2 * DAY_MS), pcursor: "0:p2" });
+  assert.deepEqual(titles(listing), ["Video b1"]);
+  assert.equal(listing.pcursor, undefined);
+  assert.equal(listing.hasMore, false);
+});
+
+test("a refused later page fails instead of restarting from the profile page", async () => {
+  refuse = true;
+  await assert.rejects(profile.listProfileVideos("creator", { pcursor: "0:p2" }), /refused/);
+});
@@ -0,0 +1,178 @@
+import type { CreatorProfile, ListedVideo } from "@shared/schema";
+import { shortVideoUrl } from "@shared/video-id";
+import { buildVideoInfo } from "./extractors";
+import { fetchWithRedirects } from "./fetcher";
+import { AUTHOR_FIELDS, PHOTO_FIELDS, decodeListingCursor, encodeListingCursor, queryGraphql } from "./graphql";
+import {
+  asString,
+  buildApolloIndex,
+  findAuthorObject,
+  findPageStates,
+  findPhotoObjects,
+  firstUrl,
+  isStateObject,
+  mapPhotoToVideoInfo,
+  type StateObject,
+} from "./page-state";
+
+const DEFAULT_MAX_COUNT = 50;
+const MAX_PAGES = 50;
+
+const PROFILE_QUERY = `
+query visionProfilePhotoList($pcursor: String, $userId: String, $page: String) {
+  visionProfilePhotoList(pcursor: $pcursor, userId: $userId, page: $page) {
+    result
+    pcursor
+    feeds {
+      type
+      author { ${AUTHOR_FIELDS} }
+      photo { ${PHOTO_FIELDS} profileUserTopPhoto }
+    }
+  }
+}`;
+
+interface ProfilePhotoList {
+  visionProfilePhotoList: {
+    result: number;
+    pcursor: string;
+    feeds: Array<{ author?: StateObject; photo?: StateObject }> | null;
+  } | null;
+}
+
+export interface ProfileListOptions {
+  maxCount?: number;
+  /** Inclusive bounds on the publish time. */
+  from?: Date;
+  to?: Date;
+  /** Cursor from the previous listing; omitted for the first page. */
+  pcursor?: string;
+}
+
+export interface ProfileListing {
+  profile: CreatorProfile;
+  videos: ListedVideo[];
+  pcursor?: string;
+  hasMore: boolean;
+}
+
+export function parseProfileUserId(url: string): string | null {
+  const match = url.match(/\/profile\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * Maps one photo from a listing feed. Listing feeds keep the author next to
+ * the photo rather than inside it, so it is passed separately.
+ */
+export function listedVideoFromPhoto(photo: StateObject, author: unknown, index = new Map<string, StateObject>()): ListedVideo | null {
+  const photoId = asString(photo.id) || asString(photo.photoId);
+  const video = buildVideoInfo(mapPhotoToVideoInfo({ ...photo, author: photo.author ?? author }, index));
+  if (!video || !photoId) return null;
+  return { url: shortVideoUrl(photoId), video };
+}
+
+function inRange(timestamp: number, options: ProfileListOptions): "before" | "inside" | "after" {
+  if (options.from && timestamp && timestamp < options.from.getTime()) return "before";
+  if (options.to && timestamp && timestamp > options.to.getTime()) return "after";
+  return "inside";
+}
+
+function profileFromAuthor(userId: string, author: unknown): CreatorProfile {
+  if (!isStateObject(author)) return { userId };
+  return {
+    userId,
+    name: asString(author.name) || undefined,
+    avatar: firstUrl(author.headerUrl) || undefined,
+  };
+}
+
+/**
+ * Feed pages until maxCount videos are listed. When that happens mid-page, the
+ * returned cursor points back at that page with the listed feeds to skip.
+ */
+async function listViaGraphql(userId: string, options: ProfileListOptions): Promise<ProfileListing> {
+  const maxCount = options.maxCount ?? DEFAULT_MAX_COUNT;
+  const referer = `https://www.kuaishou.com/profile/${encodeURIComponent(userId)}`;
+  const videos: ListedVideo[] = [];
+  let profile: CreatorProfile = { userId };
+  let { pcursor, skip } = decodeListingCursor(options.pcursor);
+  let hasMore = true;
+
+  for (let page = 0; page < MAX_PAGES && hasMore && videos.length < maxCount; page++) {
+    const data = await queryGraphql<ProfilePhotoList>(
+      "visionProfilePhotoList",
+      PROFILE_QUERY,
+      { userId, pcursor, page: "profile" },
+      referer,
+    );
+    const list = data.visionProfilePhotoList;
+    if (!list || list.result !== 1) {
+      throw new Error("Kuaishou refused the profile listing request");
+    }
+
+    const feeds = list.feeds ?? [];
+    let reachedOlder = false;
+    let consumed = feeds.length;
+    for (let index = skip; index < feeds.length; index++) {
+      const feed = feeds[index];
+      if (!feed.photo) continue;
+      if (!profile.name) profile = profileFromAuthor(userId, feed.author);
+
+      const position = inRange(Number(feed.photo.timestamp) || 0, options);
+      // Pinned photos sit on top regardless of date, so only unpinned ones end the walk.
+      if (position === "before" && !feed.photo.profileUserTopPhoto) reachedOlder = true;
+      if (position !== "inside") continue;
+
+      const listed = listedVideoFromPhoto(feed.photo, feed.author);
+      if (listed) videos.push(listed);
+      if (videos.length >= maxCount) {
+        consumed = index + 1;
+        break;
+      }
+    }
+
+    if (consumed < feeds.length) {
+      skip = consumed;
+      hasMore = !reachedOlder;
+      break;
+    }
+    pcursor = list.pcursor;
+    skip = 0;
+    hasMore = !reachedOlder && Boolean(pcursor) && pcursor !== "no_more";
+  }
+
+  return { profile, videos, pcursor: hasMore ? encodeListingCursor({ pcursor, skip }) : undefined, hasMore };
+}
+
+/** First page only: the server-rendered profile embeds its initial feed in __APOLLO_STATE__. */
+async function listViaPage(userId: string, options: ProfileListOptions): Promise<ProfileListing> {
+  const response = await fetchWithRedirects(`https://www.kuaishou.com/profile/${encodeURIComponent(userId)}`);
+  const html = await response.text();
+  const maxCount = options.maxCount ?? DEFAULT_MAX_COUNT;
+  const videos: ListedVideo[] = [];
+  let profile: CreatorProfile = { userId };
+
+  for (const state of findPageStates(html)) {
+    const index = buildApolloIndex(state.data);
+    for (const photo of findPhotoObjects(state.data)) {
+      if (inRange(Number(photo.timestamp) || 0, options) !== "inside") continue;
+      const author = findAuthorObject(photo, index);
+      if (!profile.name) profile = profileFromAuthor(userId, author);
+      const listed = listedVideoFromPhoto(photo, author, index);
+      if (listed && !videos.some((video) => video.url === listed.url)) videos.push(listed);
+    }
+  }
+
+  return { profile, videos: videos.slice(0, maxCount), hasMore: false };
+}
+
+export async function listProfileVideos(userId: string, options: ProfileListOptions = {}): Promise<ProfileListing> {
+  try {
+    return await listViaGraphql(userId, options);
+  } catch (error) {
+    // The page only has the first videos, so a later page has nothing to fall back to.
+    if (options.pcursor) throw error;
+    console.error("Profile GraphQL listing failed, falling back to page state:", error instanceof Error ? error.message : error);
+    return listViaPage(userId, options);
+  }
+}
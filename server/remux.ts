@@ -0,0 +1,221 @@
+import { getHeaders } from "./fetcher";
+import { buildAudioOnlyLayout } from "./mp4/audio";
+import { readBoxHeader } from "./mp4/boxes";
+import { buildClipLayout } from "./mp4/clip";
+import { tagMovieBox, type CoverArt, type MediaTags } from "./mp4/metadata";
+import { fetchMovieBox } from "./probe";
+
+const MOOV_TIMEOUT_MS = 15000;
+const COVER_TIMEOUT_MS = 8000;
+const MAX_COVER_BYTES = 4 * 1024 * 1024;
+const MAX_TAGGED_MOOV_BYTES = 64 * 1024 * 1024;
+
+export interface ByteRange {
+  offset: number;
+  size: number;
+}
+
+export interface RemuxedFile {
+  sizeBytes: number;
+  chunks: AsyncGenerator<Buffer>;
+}
+
+export interface ClippedFile extends RemuxedFile {
+  /** The range actually cut, after snapping the start back to a keyframe. */
+  startSeconds: number;
+  endSeconds: number;
+}
+
+/**
+ * Yields the bytes of `ranges` (ascending, non-overlapping) from a remote file
+ * using one ranged request that spans them all, skipping the gaps in between.
+ */
+export async function* streamByteRanges(url: string, ranges: ByteRange[]): AsyncGenerator<Buffer> {
+  if (ranges.length === 0) return;
+  const first = ranges[0].offset;
+  const last = ranges[ranges.length - 1];
+  const response = await fetch(url, {
+    headers: { ...getHeaders(url), Range: `bytes=${first}-${last.offset + last.size - 1}` },
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch media: ${response.status}`);
+  }
+
+  // A server that ignores Range sends the file from byte 0.
+  let position = response.status === 206 ? first : 0;
+  let rangeIndex = 0;
+  const reader = response.body.getReader();
+  try {
+    while (rangeIndex < ranges.length) {
+      const { done, value } = await reader.read();
+      if (done) {
+        throw new Error("Media ended before all samples were read");
+      }
+      let data = Buffer.from(value);
+
+      while (data.length > 0 && rangeIndex < ranges.length) {
+        const range = ranges[rangeIndex];
+        const rangeEnd = range.offset + range.size;
+        if (position + data.length <= range.offset) {
+          position += data.length;
+          break;
+        }
+        const skip = Math.max(0, range.offset - position);
+        const take = Math.min(data.length - skip, rangeEnd - position - skip);
+        if (take > 0) yield data.subarray(skip, skip + take);
+        position += skip + take;
+        data = data.subarray(skip + take);
+        if (position >= rangeEnd) rangeIndex++;
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Rewrites a remote MP4 into an audio-only M4A: a new moov holding just the
+ * AAC track, then that track's samples copied byte for byte. Only the moov
+ * and the audio chunks are downloaded.
+ */
+export async function extractAudioTrack(url: string): Promise<RemuxedFile> {
+  const movieBox = await fetchMovieBox(url, AbortSignal.timeout(MOOV_TIMEOUT_MS));
+  if (!movieBox) {
+    throw new Error("Not an MP4 file, or its moov box could not be found");
+  }
+  const layout = buildAudioOnlyLayout(movieBox.buffer, movieBox.box);
+
+  async function* chunks(): AsyncGenerator<Buffer> {
+    yield layout.header;
+    yield* streamByteRanges(url, layout.chunks);
+  }
+
+  return { sizeBytes: layout.sizeBytes, chunks: chunks() };
+}
+
+/**
+ * Cuts a remote MP4 to [start, end) seconds without re-encoding: the start
+ * moves back to the preceding keyframe and only the samples in range are
+ * downloaded, behind a rewritten moov.
+ */
+export async function clipVideo(url: string, start: number, end: number): Promise<ClippedFile> {
+  const movieBox = await fetchMovieBox(url, AbortSignal.timeout(MOOV_TIMEOUT_MS));
+  if (!movieBox) {
+    throw new Error("Not an MP4 file, or its moov box could not be found");
+  }
+  const layout = buildClipLayout(movieBox.buffer, movieBox.box, start, end);
+
+  async function* chunks(): AsyncGenerator<Buffer> {
+    yield layout.header;
+    yield* streamByteRanges(url, layout.chunks);
+  }
+
+  return {
+    sizeBytes: layout.sizeBytes,
+    chunks: chunks(),
+    startSeconds: layout.startSeconds,
+    endSeconds: layout.endSeconds,
+  };
+}
+
+/** A fetch body as Buffers, for handing to `embedMetadata`. */
+export async function* responseChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<Buffer> {
+  const reader = body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield Buffer.from(value);
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Downloads a thumbnail for use as cover art. MP4 cover art must be JPEG or
+ * PNG, so anything else (WebP thumbnails, failed requests) gives undefined.
+ */
+export async function loadCoverArt(url: string): Promise<CoverArt | undefined> {
+  try {
+    const response = await fetch(url, { headers: getHeaders(url), signal: AbortSignal.timeout(COVER_TIMEOUT_MS) });
+    if (!response.ok) return undefined;
+    const data = Buffer.from(await response.arrayBuffer());
+    if (data.length > MAX_COVER_BYTES) return undefined;
+    if (data[0] === 0xff && data[1] === 0xd8) return { data, format: "jpeg" };
+    if (data.subarray(0, 4).toString("latin1") === "\x89PNG") return { data, format: "png" };
+    return undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Passes an MP4 stream through, swapping its moov for one carrying `tags`.
+ * Only the moov is held in memory; every other top-level box is forwarded as
+ * it arrives. Streams that aren't MP4 pass through untouched.
+ */
+export async function* embedMetadata(chunks: AsyncIterable<Buffer>, tags: MediaTags): AsyncGenerator<Buffer> {
+  /** Bytes held back until `waitFor` of them have arrived: a box header, or the whole moov. */
+  let held: Buffer[] = [];
+  let heldBytes = 0;
+  let waitFor = 0;
+  /** Bytes of the current non-moov box still to forward. */
+  let passThrough = 0;
+  let mediaSeen = false;
+  let firstBox = true;
+  let done = false;
+
+  for await (const chunk of chunks) {
+    if (done) {
+      yield chunk;
+      continue;
+    }
+    held.push(chunk);
+    heldBytes += chunk.length;
+    if (heldBytes < waitFor) continue;
+    let data = held.length === 1 ? held[0] : Buffer.concat(held);
+    held = [];
+    heldBytes = 0;
+    waitFor = 0;
+
+    while (data.length > 0 && !done) {
+      if (passThrough > 0) {
+        const take = Math.min(passThrough, data.length);
+        yield data.subarray(0, take);
+        passThrough -= take;
+        data = data.subarray(take);
+        continue;
+      }
+
+      const box = readBoxHeader(data, 0);
+      if (!box && data.length < 16) {
+        waitFor = 16;
+      } else if (!box || (firstBox && box.type !== "ftyp" && box.type !== "styp")) {
+        done = true;
+      } else if (data.readUInt32BE(0) === 0 || (box.type === "moov" && box.size > MAX_TAGGED_MOOV_BYTES)) {
+        // A box running to the end of the file, or a moov too large to buffer.
+        done = true;
+      } else if (box.type === "moov") {
+        if (data.length < box.size) {
+          waitFor = box.size;
+        } else {
+          yield tagMovieBox(data, box, tags, !mediaSeen);
+          data = data.subarray(box.size);
+          done = true;
+        }
+      } else {
+        if (box.type === "mdat") mediaSeen = true;
+        passThrough = box.size;
+        firstBox = false;
+      }
+      if (waitFor > 0) {
+        held = [data];
+        heldBytes = data.length;
+        break;
+      }
+    }
+    if (done && data.length > 0) yield data;
+  }
+  yield* held;
+}
@@ -1,213 +1,137 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { fetchVideoRequestSchema, type VideoInfo, type FetchVideoResponse } from "@shared/schema";
+import { createReadStream } from "fs";
+import { timingSafeEqual } from "crypto";
+import {
+  commentsRequestSchema,
+  extractHtmlRequestSchema,
+  fetchMusicRequestSchema,
+  fetchProfileRequestSchema,
+  fetchTopicRequestSchema,
+  fetchVideoRequestSchema,
+  startLiveRecordingRequestSchema,
+  videoIdSchema,
+  type CommentsResponse,
+  type ExtractionDiagnosticsResponse,
+  type FetchMusicResponse,
+  type FetchProfileResponse,
+  type FetchTopicResponse,
+  type FetchVideoResponse,
+  type LiveRecordingResponse,
+  type StatsSeriesResponse,
+} from "@shared/schema";
+import { videoIdKey } from "@shared/video-id";
+import { CommentTargetError, commentsToCsv, commentsToNdjson, listComments, resolveCommentTarget } from "./comments";
+import { diagnoseExtraction } from "./diagnostics";
+import { getHeaders } from "./fetcher";
+import { downloadHls, isHlsPlaylist } from "./hls";
+import {
+  RecordingLimitError,
+  deleteRecording,
+  getRecording,
+  getRecordingFile,
+  resolveLiveRoom,
+  startRecording,
+  stopRecording,
+} from "./live";
+import { listMusicVideos } from "./music";
+import { listProfileVideos, parseProfileUserId } from "./profile";
+import type { MediaTags } from "./mp4/metadata";
+import { clipVideo, embedMetadata, extractAudioTrack, loadCoverArt, responseChunks } from "./remux";
+import { storage } from "./storage";
+import { listTopicVideos } from "./topic";
+import { extractFromHtml, fetchVideo } from "./video-fetch";
+import { createZip, type ZipEntry } from "./zip";
 
-const USER_AGENTS = [
-  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
-  "Mozilla/5.0 (Linux; Android 13; SM-G998B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36",
-  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-];
+const MAX_ZIP_IMAGES = 50;
+const MAX_CLIP_SECONDS = 600;
 
-function getRandomUserAgent(): string {
-  return USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
-}
-
-function getHeaders(referer?: string): Record<string, string> {
-  return {
-    "User-Agent": getRandomUserAgent(),
-    "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
-    "Accept-Language": "en-US,en;q=0.9,zh-CN;q=0.8,zh;q=0.7",
-    "Accept-Encoding": "gzip, deflate, br",
-    "Referer": referer || "https://www.kuaishou.com/",
-    "Origin": "https://www.kuaishou.com",
-    "Connection": "keep-alive",
-    "Cache-Control": "no-cache",
-    "Pragma": "no-cache",
-  };
-}
-
-async function fetchWithRedirects(url: string, maxRedirects = 5): Promise<globalThis.Response> {
-  let currentUrl = url;
-  let response: globalThis.Response | null = null;
-  
-  for (let i = 0; i < maxRedirects; i++) {
-    response = await fetch(currentUrl, {
-      headers: getHeaders(currentUrl),
-      redirect: "manual",
-    });
-    
-    if (response.status >= 300 && response.status < 400) {
-      const location = response.headers.get("location");
-      if (location) {
-        currentUrl = location.startsWith("http") ? location : new URL(location, currentUrl).href;
-        continue;
-      }
-    }
-    break;
-  }
-  
-  if (!response) {
-    throw new Error("Failed to fetch URL");
-  }
-  
-  return response;
+/** Resolves once `res` can take more data or has closed, removing whichever listener did not fire. */
+function drained(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const settle = () => {
+      res.off("drain", settle);
+      res.off("close", settle);
+      resolve();
+    };
+    res.once("drain", settle);
+    res.once("close", settle);
+  });
 }
 
-function extractVideoInfoFromHtml(html: string, originalUrl: string): VideoInfo | null {
+async function pipeChunks(chunks: AsyncGenerator<Buffer>, res: Response): Promise<void> {
   try {
-    let title = "";
-    let author = "";
-    let thumbnail = "";
-    let videoUrl = "";
-    
-    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-    if (titleMatch) {
-      title = titleMatch[1].replace(/\s*[-|]\s*快手.*$/i, "").trim();
-    }
-    
-    const ogTitleMatch = html.match(/property=["']og:title["'][^>]*content=["']([^"']+)["']/i) ||
-                         html.match(/content=["']([^"']+)["'][^>]*property=["']og:title["']/i);
-    if (ogTitleMatch) {
-      title = ogTitleMatch[1].trim();
-    }
-    
-    const ogImageMatch = html.match(/property=["']og:image["'][^>]*content=["']([^"']+)["']/i) ||
-                         html.match(/content=["']([^"']+)["'][^>]*property=["']og:image["']/i);
-    if (ogImageMatch) {
-      thumbnail = ogImageMatch[1];
-    }
-    
-    const ogVideoMatch = html.match(/property=["']og:video(?::url)?["'][^>]*content=["']([^"']+)["']/i) ||
-                         html.match(/content=["']([^"']+)["'][^>]*property=["']og:video(?::url)?["']/i);
-    if (ogVideoMatch) {
-      videoUrl = ogVideoMatch[1];
-    }
-    
-    const authorMatch = html.match(/by\s+@?([^<"\n]+)/i) ||
-                        html.match(/"author"[:\s]*"([^"]+)"/i) ||
-                        html.match(/"userName"[:\s]*"([^"]+)"/i) ||
-                        html.match(/"name"[:\s]*"([^"]+)"/i);
-    if (authorMatch) {
-      author = authorMatch[1].trim();
-    }
-    
-    const jsonScriptPattern = /<script[^>]*type=["']application\/(?:ld\+)?json["'][^>]*>([\s\S]*?)<\/script>/gi;
-    let jsonMatch;
-    while ((jsonMatch = jsonScriptPattern.exec(html)) !== null) {
-      try {
-        const json = JSON.parse(jsonMatch[1]);
-        if (json.contentUrl) videoUrl = videoUrl || json.contentUrl;
-        if (json.thumbnailUrl) thumbnail = thumbnail || json.thumbnailUrl;
-        if (json.name) title = title || json.name;
-        if (json.author?.name) author = author || json.author.name;
-      } catch (e) {
-      }
-    }
-    
-    let audioUrl = "";
-    
-    const audioUrlPatterns = [
-      /["'](https?:\/\/[^"'\s]+\.m4a[^"'\s]*?)["']/gi,
-      /["'](https?:\/\/[^"'\s]+\.mp3[^"'\s]*?)["']/gi,
-      /["'](https?:\/\/[^"'\s]+\.aac[^"'\s]*?)["']/gi,
-      /audioUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
-      /soundTrack["']?\s*[:=]\s*["']([^"']+)["']/i,
-    ];
-    
-    for (const pattern of audioUrlPatterns) {
-      let match;
-      while ((match = pattern.exec(html)) !== null) {
-        audioUrl = match[1];
-        break;
-      }
-      if (audioUrl) break;
-    }
-    
-    const videoUrlPatterns = [
-      /["'](https?:\/\/[^"'\s]+\.mp4[^"'\s]*?)["']/gi,
-      /["'](https?:\/\/[^"'\s]*video[^"'\s]+\.mp4[^"'\s]*?)["']/gi,
-      /videoUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
-      /playUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
-      /srcNoMark["']?\s*[:=]\s*["']([^"']+)["']/i,
-    ];
-    
-    if (!videoUrl) {
-      for (const pattern of videoUrlPatterns) {
-        let match;
-        while ((match = pattern.exec(html)) !== null) {
-          const foundUrl = match[1];
-          if (foundUrl && foundUrl.includes(".mp4") && !foundUrl.includes("poster") && !foundUrl.includes("cover")) {
-            videoUrl = foundUrl;
-            break;
-          }
-        }
-        if (videoUrl) break;
-      }
-    }
-    
-    const m3u8Patterns = [
-      /["'](https?:\/\/[^"'\s]+\.m3u8[^"'\s]*?)["']/gi,
-      /hlsPlayUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
-    ];
-    
-    if (!videoUrl) {
-      for (const pattern of m3u8Patterns) {
-        let match;
-        while ((match = pattern.exec(html)) !== null) {
-          videoUrl = match[1];
-          break;
-        }
-        if (videoUrl) break;
+    while (true) {
+      // Checked before pulling, so a client that went away doesn't cost another upstream read.
+      if (res.destroyed) {
+        await chunks.return(undefined);
+        return;
       }
-    }
-    
-    const imgPatterns = [
-      /["'](https?:\/\/[^"'\s]+(?:cover|poster|thumb)[^"'\s]*\.(?:jpg|jpeg|png|webp)[^"'\s]*?)["']/gi,
-      /coverUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
-      /posterUrl["']?\s*[:=]\s*["']([^"']+)["']/i,
-    ];
-    
-    if (!thumbnail) {
-      for (const pattern of imgPatterns) {
-        let match;
-        while ((match = pattern.exec(html)) !== null) {
-          thumbnail = match[1];
-          break;
-        }
-        if (thumbnail) break;
+      const { done, value } = await chunks.next();
+      if (done) break;
+      if (!res.write(value)) {
+        await drained(res);
       }
     }
-    
-    if (videoUrl) {
-      videoUrl = videoUrl.replace(/\\u002F/g, "/").replace(/\\/g, "");
-    }
-    if (thumbnail) {
-      thumbnail = thumbnail.replace(/\\u002F/g, "/").replace(/\\/g, "");
-    }
-    
-    if (!videoUrl) {
-      return null;
-    }
-    
-    if (audioUrl) {
-      audioUrl = audioUrl.replace(/\\u002F/g, "/").replace(/\\/g, "");
-    }
-    
-    return {
-      title: title || "Kuaishou Video",
-      author: author || "Unknown",
-      thumbnail: thumbnail,
-      videoUrl: videoUrl,
-      audioUrl: audioUrl || undefined,
-      quality: "720p",
-      fileSize: "",
-    };
+    res.end();
   } catch (error) {
-    console.error("Error extracting video info:", error);
-    return null;
+    console.error("Stream error:", error);
+    if (!res.headersSent) {
+      res.status(502).json({ error: "Stream error" });
+    } else {
+      res.destroy(error instanceof Error ? error : undefined);
+    }
   }
 }
 
+const MAX_TAG_LENGTH = 1000;
+
+/**
+ * Tags for an opt-in `metadata=1` download, from the title, artist, source,
+ * photoId, date and cover parameters the client fills in from its VideoInfo.
+ */
+async function readDownloadTags(query: Request["query"]): Promise<MediaTags | null> {
+  if (query.metadata !== "1") return null;
+  const text = (key: string) => {
+    const value = query[key];
+    return typeof value === "string" && value.trim() ? value.trim().slice(0, MAX_TAG_LENGTH) : undefined;
+  };
+  const source = text("source");
+  const photoId = text("photoId");
+  const cover = text("cover");
+  return {
+    title: text("title"),
+    artist: text("artist"),
+    comment: [source, photoId && `Photo ID: ${photoId}`].filter(Boolean).join("\n") || undefined,
+    date: text("date"),
+    cover: cover && /^https?:\/\//.test(cover) ? await loadCoverArt(cover) : undefined,
+  };
+}
+
+function isVideoFile(url: string, contentType: string | null): boolean {
+  if (contentType && /^video\/(mp4|quicktime)/i.test(contentType)) return true;
+  return /\.(mp4|mov)(\?|#|$)/i.test(url) && !contentType?.startsWith("audio/");
+}
+
+function imageExtension(url: string, contentType: string): string {
+  if (contentType.includes("png")) return "png";
+  if (contentType.includes("webp")) return "webp";
+  if (contentType.includes("heic")) return "heic";
+  const pathMatch = new URL(url).pathname.match(/\.(jpe?g|png|webp|heic)$/i);
+  return pathMatch ? pathMatch[1].toLowerCase() : "jpg";
+}
+
+/** Debug endpoints are off unless ADMIN_TOKEN is set, then need it as `X-Admin-Token` or `?token=`. */
+function isAdminRequest(req: Request): boolean {
+  const expected = process.env.ADMIN_TOKEN;
+  const header = req.get("x-admin-token");
+  const provided = header || (typeof req.query.token === "string" ? req.query.token : "");
+  if (!expected || !provided) return false;
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -225,14 +149,10 @@ export async function registerRoutes(
         return res.status(400).json(errorResponse);
       }
       
-      const { url } = parseResult.data;
-      
-      const fetchResponse = await fetchWithRedirects(url);
-      const html = await fetchResponse.text();
-      
-      const videoInfo = extractVideoInfoFromHtml(html, url);
+      const { url, debug } = parseResult.data;
+      const fetched = await fetchVideo(url, { debug });
       
-      if (!videoInfo) {
+      if (!fetched) {
         const errorResponse: FetchVideoResponse = {
           success: false,
           error: "Could not find video on this page. Please check the URL and try again.",
@@ -242,7 +162,8 @@ export async function registerRoutes(
       
       const successResponse: FetchVideoResponse = {
         success: true,
-        data: videoInfo,
+        data: fetched.videoInfo,
+        debug: debug ? fetched.debug : undefined,
       };
       
       return res.json(successResponse);
@@ -256,6 +177,227 @@ export async function registerRoutes(
     }
   });
   
+  app.post("/api/extract-html", async (req: Request, res: Response) => {
+    try {
+      const parseResult = extractHtmlRequestSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const errorResponse: FetchVideoResponse = {
+          success: false,
+          error: parseResult.error.errors[0]?.message || "Invalid page source",
+        };
+        return res.status(400).json(errorResponse);
+      }
+      
+      const fetched = await extractFromHtml(parseResult.data.html, parseResult.data.url);
+      
+      if (!fetched) {
+        const errorResponse: FetchVideoResponse = {
+          success: false,
+          error: "Could not find a video in this page source. Make sure you saved the video page itself, after it finished loading.",
+        };
+        return res.status(404).json(errorResponse);
+      }
+      
+      const successResponse: FetchVideoResponse = {
+        success: true,
+        data: fetched.videoInfo,
+      };
+      
+      return res.json(successResponse);
+    } catch (error) {
+      console.error("Error extracting from HTML:", error);
+      const errorResponse: FetchVideoResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "An error occurred while reading the page source",
+      };
+      return res.status(500).json(errorResponse);
+    }
+  });
+  
+  app.post("/api/fetch-profile", async (req: Request, res: Response) => {
+    try {
+      const parseResult = fetchProfileRequestSchema.safeParse(req.body);
+      const userId = parseResult.success ? parseProfileUserId(parseResult.data.url) : null;
+      
+      if (!parseResult.success || !userId) {
+        const errorResponse: FetchProfileResponse = {
+          success: false,
+          error: "Please enter a valid Kuaishou profile URL",
+        };
+        return res.status(400).json(errorResponse);
+      }
+      
+      const { maxCount, from, to, pcursor } = parseResult.data;
+      const listing = await listProfileVideos(userId, {
+        maxCount,
+        from: from ? new Date(`${from}T00:00:00Z`) : undefined,
+        to: to ? new Date(`${to}T23:59:59.999Z`) : undefined,
+        pcursor,
+      });
+      
+      // A later page with nothing left in range is just the end of the listing.
+      if (listing.videos.length === 0 && !pcursor) {
+        const errorResponse: FetchProfileResponse = {
+          success: false,
+          error: "No videos found for this creator in the selected range.",
+        };
+        return res.status(404).json(errorResponse);
+      }
+      
+      const successResponse: FetchProfileResponse = {
+        success: true,
+        data: listing,
+      };
+      
+      return res.json(successResponse);
+    } catch (error) {
+      console.error("Error fetching profile:", error);
+      const errorResponse: FetchProfileResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "An error occurred while fetching the profile",
+      };
+      return res.status(500).json(errorResponse);
+    }
+  });
+  
+  app.post("/api/fetch-music", async (req: Request, res: Response) => {
+    try {
+      const parseResult = fetchMusicRequestSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const errorResponse: FetchMusicResponse = {
+          success: false,
+          error: "Please enter a valid Kuaishou music URL",
+        };
+        return res.status(400).json(errorResponse);
+      }
+      
+      const listing = await listMusicVideos(parseResult.data.url, parseResult.data.pcursor);
+      
+      if (listing.music && !listing.music.audioUrl && listing.videos.length === 0) {
+        const errorResponse: FetchMusicResponse = {
+          success: false,
+          error: "Could not find this sound or any videos using it.",
+        };
+        return res.status(404).json(errorResponse);
+      }
+      
+      const successResponse: FetchMusicResponse = {
+        success: true,
+        data: listing,
+      };
+      
+      return res.json(successResponse);
+    } catch (error) {
+      console.error("Error fetching music:", error);
+      const errorResponse: FetchMusicResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "An error occurred while fetching the music page",
+      };
+      return res.status(500).json(errorResponse);
+    }
+  });
+  
+  app.post("/api/fetch-topic", async (req: Request, res: Response) => {
+    try {
+      const parseResult = fetchTopicRequestSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const errorResponse: FetchTopicResponse = {
+          success: false,
+          error: "Please enter a valid Kuaishou topic URL",
+        };
+        return res.status(400).json(errorResponse);
+      }
+      
+      const { url, ...options } = parseResult.data;
+      const listing = await listTopicVideos(url, options);
+      
+      // A later page with nothing left that passes the filters is just the end of the listing.
+      if (listing.videos.length === 0 && !options.pcursor) {
+        const errorResponse: FetchTopicResponse = {
+          success: false,
+          error: "No videos found under this topic that match the filters.",
+        };
+        return res.status(404).json(errorResponse);
+      }
+      
+      const successResponse: FetchTopicResponse = {
+        success: true,
+        data: listing,
+      };
+      
+      return res.json(successResponse);
+    } catch (error) {
+      console.error("Error fetching topic:", error);
+      const errorResponse: FetchTopicResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "An error occurred while fetching the topic",
+      };
+      return res.status(500).json(errorResponse);
+    }
+  });
+  
+  app.get("/api/comments", async (req: Request, res: Response) => {
+    try {
+      const parseResult = commentsRequestSchema.safeParse(req.query);
+      
+      if (!parseResult.success) {
+        const errorResponse: CommentsResponse = {
+          success: false,
+          error: "Please enter a valid Kuaishou URL",
+        };
+        return res.status(400).json(errorResponse);
+      }
+      
+      const { url, format, maxCount, replies } = parseResult.data;
+      const videoId = await resolveCommentTarget(url);
+      const listing = await listComments(videoId.photoId, { maxCount, includeReplies: replies });
+      
+      if (format !== "json") {
+        const body = format === "csv" ? commentsToCsv(listing.comments) : commentsToNdjson(listing.comments);
+        res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="kuaishou-comments-${videoId.photoId}.${format}"`);
+        return res.send(body);
+      }
+      
+      const successResponse: CommentsResponse = {
+        success: true,
+        data: { videoId, ...listing },
+      };
+      
+      return res.json(successResponse);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      const errorResponse: CommentsResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "An error occurred while fetching comments",
+      };
+      return res.status(error instanceof CommentTargetError ? 400 : 500).json(errorResponse);
+    }
+  });
+  
+  app.get("/api/stats/:platform/:photoId", async (req: Request, res: Response) => {
+    const parseResult = videoIdSchema.safeParse(req.params);
+    if (!parseResult.success) {
+      const errorResponse: StatsSeriesResponse = { success: false, error: "Unknown platform" };
+      return res.status(400).json(errorResponse);
+    }
+    
+    const snapshots = await storage.getStatsSnapshots(videoIdKey(parseResult.data));
+    if (snapshots.length === 0) {
+      const errorResponse: StatsSeriesResponse = { success: false, error: "No statistics recorded for this video yet" };
+      return res.status(404).json(errorResponse);
+    }
+    
+    const successResponse: StatsSeriesResponse = {
+      success: true,
+      data: { videoId: parseResult.data, snapshots },
+    };
+    return res.json(successResponse);
+  });
+  
   app.get("/api/download", async (req: Request, res: Response) => {
     try {
       const { url, type } = req.query;
@@ -264,9 +406,8 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Missing video URL" });
       }
       
-      const downloadType = type === "audio" ? "audio" : "video";
-      const filename = downloadType === "audio" ? "kuaishou-audio.m4a" : "kuaishou-video.mp4";
-      const contentType = downloadType === "audio" ? "audio/mp4" : "video/mp4";
+      const downloadType = type === "audio" || type === "image" ? type : "video";
+      const tags = downloadType === "image" ? null : await readDownloadTags(req.query);
       
       const fetchResponse = await fetch(url, {
         headers: getHeaders(url),
@@ -276,9 +417,52 @@ export async function registerRoutes(
         return res.status(fetchResponse.status).json({ error: "Failed to download file" });
       }
       
+      if (isHlsPlaylist(url, fetchResponse.headers.get("content-type"))) {
+        const hls = await downloadHls(fetchResponse.url || url, await fetchResponse.text());
+        const extension = hls.container === "mp4" ? (downloadType === "audio" ? "m4a" : "mp4") : "ts";
+        res.setHeader("Content-Type", hls.container === "mp4" ? (downloadType === "audio" ? "audio/mp4" : "video/mp4") : "video/mp2t");
+        res.setHeader("Content-Disposition", `attachment; filename="kuaishou-${downloadType}.${extension}"`);
+        await pipeChunks(tags && hls.container === "mp4" ? embedMetadata(hls.chunks, tags) : hls.chunks, res);
+        return;
+      }
+      
+      // No separate audio URL: the client sent the video, so cut the AAC track out of it.
+      if (downloadType === "audio" && isVideoFile(url, fetchResponse.headers.get("content-type"))) {
+        await fetchResponse.body?.cancel().catch(() => {});
+        let audio;
+        try {
+          audio = await extractAudioTrack(fetchResponse.url || url);
+        } catch (error) {
+          console.error("Audio extraction failed:", error);
+          return res.status(422).json({ error: error instanceof Error ? error.message : "Could not extract audio" });
+        }
+        res.setHeader("Content-Type", "audio/mp4");
+        res.setHeader("Content-Disposition", 'attachment; filename="kuaishou-audio.m4a"');
+        if (tags) {
+          await pipeChunks(embedMetadata(audio.chunks, tags), res);
+          return;
+        }
+        res.setHeader("Content-Length", String(audio.sizeBytes));
+        await pipeChunks(audio.chunks, res);
+        return;
+      }
+      
+      let filename = downloadType === "audio" ? "kuaishou-audio.m4a" : "kuaishou-video.mp4";
+      let contentType = downloadType === "audio" ? "audio/mp4" : "video/mp4";
+      if (downloadType === "image") {
+        contentType = fetchResponse.headers.get("content-type") || "image/jpeg";
+        filename = `kuaishou-image.${imageExtension(url, contentType)}`;
+      }
+      
       res.setHeader("Content-Type", contentType);
       res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
       
+      // The tagged moov changes the file's size, so the length isn't known up front.
+      if (tags && fetchResponse.body) {
+        await pipeChunks(embedMetadata(responseChunks(fetchResponse.body), tags), res);
+        return;
+      }
+      
       const contentLength = fetchResponse.headers.get("content-length");
       if (contentLength) {
         res.setHeader("Content-Length", contentLength);
@@ -316,5 +500,245 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/debug/extract", async (req: Request, res: Response) => {
+    if (!process.env.ADMIN_TOKEN) {
+      const errorResponse: ExtractionDiagnosticsResponse = { success: false, error: "Not found" };
+      return res.status(404).json(errorResponse);
+    }
+    if (!isAdminRequest(req)) {
+      const errorResponse: ExtractionDiagnosticsResponse = { success: false, error: "Invalid admin token" };
+      return res.status(401).json(errorResponse);
+    }
+    
+    const { url } = req.query;
+    if (!url || typeof url !== "string" || !/^https?:\/\//.test(url)) {
+      const errorResponse: ExtractionDiagnosticsResponse = { success: false, error: "Missing page URL" };
+      return res.status(400).json(errorResponse);
+    }
+    
+    try {
+      const successResponse: ExtractionDiagnosticsResponse = {
+        success: true,
+        data: await diagnoseExtraction(url),
+      };
+      return res.json(successResponse);
+    } catch (error) {
+      console.error("Error diagnosing extraction:", error);
+      const errorResponse: ExtractionDiagnosticsResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "An error occurred while fetching the page",
+      };
+      return res.status(502).json(errorResponse);
+    }
+  });
+  
+  app.get("/api/image-proxy", async (req: Request, res: Response) => {
+    try {
+      const { url, download } = req.query;
+      
+      if (!url || typeof url !== "string" || !/^https?:\/\//.test(url)) {
+        return res.status(400).json({ error: "Missing image URL" });
+      }
+      
+      const fetchResponse = await fetch(url, { headers: getHeaders(url) });
+      const contentType = fetchResponse.headers.get("content-type") || "";
+      if (!fetchResponse.ok || !contentType.startsWith("image/")) {
+        return res.status(fetchResponse.ok ? 415 : fetchResponse.status).json({ error: "Failed to load image" });
+      }
+      
+      const body = Buffer.from(await fetchResponse.arrayBuffer());
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Cache-Control", "public, max-age=86400");
+      if (download) {
+        res.setHeader("Content-Disposition", `attachment; filename="kuaishou-image.${imageExtension(url, contentType)}"`);
+      }
+      return res.send(body);
+    } catch (error) {
+      console.error("Image proxy error:", error);
+      return res.status(502).json({ error: "Failed to load image" });
+    }
+  });
+
+  app.post("/api/live/start", async (req: Request, res: Response) => {
+    try {
+      const parseResult = startLiveRecordingRequestSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        const errorResponse: LiveRecordingResponse = {
+          success: false,
+          error: "Please enter a valid Kuaishou live room URL",
+        };
+        return res.status(400).json(errorResponse);
+      }
+      
+      const stream = await resolveLiveRoom(parseResult.data.url);
+      const successResponse: LiveRecordingResponse = {
+        success: true,
+        data: startRecording(stream, parseResult.data.url),
+      };
+      
+      return res.json(successResponse);
+    } catch (error) {
+      console.error("Error starting live recording:", error);
+      const errorResponse: LiveRecordingResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "An error occurred while starting the recording",
+      };
+      return res.status(error instanceof RecordingLimitError ? 429 : 500).json(errorResponse);
+    }
+  });
+  
+  app.get("/api/live/:id", (req: Request, res: Response) => {
+    const recording = getRecording(req.params.id);
+    if (!recording) {
+      const errorResponse: LiveRecordingResponse = { success: false, error: "Recording not found" };
+      return res.status(404).json(errorResponse);
+    }
+    const successResponse: LiveRecordingResponse = { success: true, data: recording };
+    return res.json(successResponse);
+  });
+  
+  app.post("/api/live/:id/stop", (req: Request, res: Response) => {
+    const recording = stopRecording(req.params.id);
+    if (!recording) {
+      const errorResponse: LiveRecordingResponse = { success: false, error: "Recording not found" };
+      return res.status(404).json(errorResponse);
+    }
+    const successResponse: LiveRecordingResponse = { success: true, data: recording };
+    return res.json(successResponse);
+  });
+  
+  app.delete("/api/live/:id", async (req: Request, res: Response) => {
+    try {
+      const recording = await deleteRecording(req.params.id);
+      if (!recording) {
+        const errorResponse: LiveRecordingResponse = { success: false, error: "Recording not found" };
+        return res.status(404).json(errorResponse);
+      }
+      const successResponse: LiveRecordingResponse = { success: true, data: recording };
+      return res.json(successResponse);
+    } catch (error) {
+      console.error("Error deleting live recording:", error);
+      const errorResponse: LiveRecordingResponse = { success: false, error: "Could not delete the recording" };
+      return res.status(500).json(errorResponse);
+    }
+  });
+  
+  app.get("/api/clip", async (req: Request, res: Response) => {
+    try {
+      const { url } = req.query;
+      const start = Number(req.query.start);
+      const end = Number(req.query.end);
+      
+      if (!url || typeof url !== "string") {
+        return res.status(400).json({ error: "Missing video URL" });
+      }
+      
+      if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) {
+        return res.status(400).json({ error: "start and end must be seconds with start before end" });
+      }
+      
+      if (end - start > MAX_CLIP_SECONDS) {
+        return res.status(400).json({ error: `Clips can be at most ${MAX_CLIP_SECONDS} seconds long` });
+      }
+      
+      let clip;
+      try {
+        clip = await clipVideo(url, start, end);
+      } catch (error) {
+        console.error("Clip error:", error);
+        return res.status(422).json({ error: error instanceof Error ? error.message : "Could not cut this video" });
+      }
+      
+      const range = `${Math.floor(clip.startSeconds)}-${Math.ceil(clip.endSeconds)}`;
+      res.setHeader("Content-Type", "video/mp4");
+      res.setHeader("Content-Disposition", `attachment; filename="kuaishou-clip-${range}.mp4"`);
+      res.setHeader("Content-Length", String(clip.sizeBytes));
+      await pipeChunks(clip.chunks, res);
+    } catch (error) {
+      console.error("Clip error:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: "Clip failed" });
+      }
+    }
+  });
+  
+  app.get("/api/download/live/:id", async (req: Request, res: Response) => {
+    try {
+      const file = await getRecordingFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ error: "Recording not found or still in progress" });
+      }
+      
+      const { format, startedAt } = file.recording;
+      const stamp = startedAt.slice(0, 19).replace(/[:T]/g, "-");
+      res.setHeader("Content-Type", format === "flv" ? "video/x-flv" : "video/mp2t");
+      res.setHeader("Content-Disposition", `attachment; filename="kuaishou-live-${stamp}.${format}"`);
+      res.setHeader("Content-Length", file.recording.bytesWritten.toString());
+      createReadStream(file.path)
+        .on("error", (error) => {
+          console.error("Live download error:", error);
+          res.destroy(error);
+        })
+        .pipe(res);
+    } catch (error) {
+      console.error("Live download error:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: "Download failed" });
+      }
+    }
+  });
+  
+  app.get("/api/download-zip", async (req: Request, res: Response) => {
+    try {
+      const images = ([] as unknown[]).concat(req.query.image ?? []).filter((value): value is string => typeof value === "string");
+      const audio = typeof req.query.audio === "string" ? req.query.audio : "";
+      
+      if (images.length === 0) {
+        return res.status(400).json({ error: "Missing image URLs" });
+      }
+      
+      if (images.length > MAX_ZIP_IMAGES) {
+        return res.status(400).json({ error: `At most ${MAX_ZIP_IMAGES} images can be zipped at once` });
+      }
+      
+      const entries: ZipEntry[] = [];
+      for (let index = 0; index < images.length; index++) {
+        const imageUrl = images[index];
+        const fetchResponse = await fetch(imageUrl, { headers: getHeaders(imageUrl) });
+        if (!fetchResponse.ok) {
+          return res.status(502).json({ error: `Failed to download image ${index + 1}` });
+        }
+        const contentType = fetchResponse.headers.get("content-type") || "image/jpeg";
+        const number = String(index + 1).padStart(2, "0");
+        entries.push({
+          name: `kuaishou-image-${number}.${imageExtension(imageUrl, contentType)}`,
+          data: Buffer.from(await fetchResponse.arrayBuffer()),
+        });
+      }
+      
+      if (audio) {
+        const fetchResponse = await fetch(audio, { headers: getHeaders(audio) });
+        if (fetchResponse.ok) {
+          entries.push({
+            name: "kuaishou-audio.m4a",
+            data: Buffer.from(await fetchResponse.arrayBuffer()),
+          });
+        }
+      }
+      
+      const archive = createZip(entries);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="kuaishou-images.zip"`);
+      res.setHeader("Content-Length", archive.length.toString());
+      res.end(archive);
+    } catch (error) {
+      console.error("ZIP download error:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: "Download failed" });
+      }
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readBoxHeader } from "./mp4/boxes";
+import { writeBox, writeChunkOffsets, writeFullBox } from "./mp4/writer";
+import { chunkLayout, readSampleTable, writeSampleSizes, writeSampleToChunk, writeTimeToSample } from "./mp4/sample-table";
+
+/** A one-chunk stbl from the given boxes, with stsz, stsc and stco filled in where not given. */
+function sampleTable(boxes: { stsz?: Buffer; stsc?: Buffer; stts?: Buffer }) {
+  const buffer = writeBox(
+    "stbl",
+    boxes.stsz ?? writeSampleSizes([10, 20, 30]),
+    boxes.stsc ?? writeSampleToChunk([3], [1]),
+    writeChunkOffsets([100]),
+    boxes.stts ?? writeTimeToSample([512, 512, 512]),
+  );
+  return readSampleTable(buffer, readBoxHeader(buffer, 0)!);
+}
+
+/** A full box whose payload is the given 32-bit fields. */
+function fields(type: string, ...values: number[]): Buffer {
+  const payload = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => payload.writeUInt32BE(value, i * 4));
+  return writeFullBox(type, 0, 0, payload);
+}
+
+test("reads a well-formed table", () => {
+  const table = sampleTable({});
+  assert.deepEqual(table.sampleSizes, [10, 20, 30]);
+  assert.deepEqual(table.sampleDeltas, [512, 512, 512]);
+  assert.deepEqual(chunkLayout(table), [{ offset: 100, size: 60, firstSample: 0, sampleCount: 3 }]);
+});
+
+test("rejects sample counts the file cannot back", () => {
+  // Per-sample sizes: four billion entries in a box with room for one.
+  assert.throws(() => sampleTable({ stsz: fields("stsz", 0, 0xffffffff, 10) }), /lists more entries than it holds/);
+  // One size for every sample: nothing to measure against, so the cap applies.
+  assert.throws(() => sampleTable({ stsz: fields("stsz", 10, 0xffffffff) }), /more samples than a track can hold/);
+});
+
+test("rejects timing and chunk runs that cover more samples than the track has", () => {
+  assert.throws(() => sampleTable({ stts: fields("stts", 1, 0xffffffff, 512) }), /timing covers more samples/);
+  const table = sampleTable({ stsc: fields("stsc", 1, 1, 0xffffffff, 1) });
+  assert.throws(() => chunkLayout(table), /chunks and sample sizes disagree/);
+});
@@ -0,0 +1,124 @@
+import type { VideoVariant } from "@shared/schema";
+
+/** A playable URL and the attributes the ranking rules compare; `watermark` is unset when the page doesn't say. */
+export type SourceCandidate = Omit<VideoVariant, "watermark"> & { watermark?: boolean };
+
+export type RankingRule = (a: SourceCandidate, b: SourceCandidate) => number;
+
+const EXPIRY_PARAMS = ["x-expires", "expires", "expire", "Expires", "e"];
+
+/** Applied in order until one tells two candidates apart; reorder with KUAISHOU_SOURCE_RANKING. */
+const DEFAULT_RULES = ["expiry", "watermark", "host", "resolution", "codec", "bitrate"];
+
+function preferredHosts(): string[] {
+  return (process.env.KUAISHOU_PREFERRED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function preferredCodec(): VideoVariant["codec"] {
+  return process.env.KUAISHOU_PREFERRED_CODEC === "hevc" ? "hevc" : "h264";
+}
+
+function isExpired(candidate: SourceCandidate): boolean {
+  return Boolean(candidate.expiresAt) && Date.parse(candidate.expiresAt!) <= Date.now();
+}
+
+/** Clean first, then unknown, then watermarked. */
+function watermarkRank(candidate: SourceCandidate): number {
+  if (candidate.watermark === false) return 0;
+  return candidate.watermark === undefined ? 1 : 2;
+}
+
+function hostRank(candidate: SourceCandidate, hosts: string[]): number {
+  const index = hosts.findIndex((host) => candidate.host === host || candidate.host?.endsWith(`.${host}`));
+  return index === -1 ? hosts.length : index;
+}
+
+function shortSide(candidate: SourceCandidate): number {
+  return Math.min(candidate.width ?? 0, candidate.height ?? 0);
+}
+
+function codecRank(candidate: SourceCandidate, codec: VideoVariant["codec"]): number {
+  if (candidate.codec === codec) return 0;
+  return candidate.codec === "unknown" ? 1 : 2;
+}
+
+const RULES: Record<string, RankingRule> = {
+  expiry: (a, b) => Number(isExpired(a)) - Number(isExpired(b)),
+  watermark: (a, b) => watermarkRank(a) - watermarkRank(b),
+  host: (a, b) => {
+    const hosts = preferredHosts();
+    return hostRank(a, hosts) - hostRank(b, hosts);
+  },
+  resolution: (a, b) => shortSide(b) - shortSide(a),
+  codec: (a, b) => {
+    const codec = preferredCodec();
+    return codecRank(a, codec) - codecRank(b, codec);
+  },
+  bitrate: (a, b) => (b.bitrate ?? 0) - (a.bitrate ?? 0),
+};
+
+/** The configured rule names, ignoring unknown ones; the defaults when none are usable. */
+export function rankingRules(): string[] {
+  const configured = (process.env.KUAISHOU_SOURCE_RANKING || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name in RULES);
+  return configured.length > 0 ? configured : DEFAULT_RULES;
+}
+
+export function compareSources(a: SourceCandidate, b: SourceCandidate): number {
+  for (const name of rankingRules()) {
+    const order = RULES[name](a, b);
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+/** The first rule that puts `winner` ahead of `loser`; null when no rule tells them apart. */
+export function decidingRule(winner: SourceCandidate, loser: SourceCandidate): string | null {
+  for (const name of rankingRules()) {
+    const order = RULES[name](winner, loser);
+    if (order !== 0) return order < 0 ? name : null;
+  }
+  return null;
+}
+
+function expiryOf(url: URL): string | undefined {
+  for (const param of EXPIRY_PARAMS) {
+    const value = url.searchParams.get(param);
+    if (value && /^\d{10}$/.test(value)) {
+      return new Date(Number(value) * 1000).toISOString();
+    }
+  }
+  return undefined;
+}
+
+/** Fills in the attributes readable from the URL itself: CDN host and signed-URL expiry. */
+export function withUrlAttributes<T extends SourceCandidate>(candidate: T): T {
+  try {
+    const url = new URL(candidate.url);
+    return {
+      ...candidate,
+      host: candidate.host ?? url.hostname.toLowerCase(),
+      expiresAt: candidate.expiresAt ?? expiryOf(url),
+    };
+  } catch {
+    return candidate;
+  }
+}
+
+/** Best first under the configured rules; a URL listed twice keeps its first entry. */
+export function rankSources<T extends SourceCandidate>(candidates: T[]): T[] {
+  const seen = new Set<string>();
+  return candidates
+    .filter((candidate) => {
+      if (seen.has(candidate.url)) return false;
+      seen.add(candidate.url);
+      return true;
+    })
+    .map(withUrlAttributes)
+    .sort(compareSources);
+}
@@ -1,8 +1,67 @@
+import type { StatsSnapshot, VideoInfo } from "@shared/schema";
+
+const VIDEO_CACHE_TTL_MS = 10 * 60 * 1000;
+/** Oldest snapshots are dropped past this many per video. */
+const MAX_STATS_SNAPSHOTS = 500;
+
 export interface IStorage {
+  /** Keyed by videoIdKey(); entries expire because the CDN URLs inside are signed. */
+  getCachedVideo(key: string): Promise<VideoInfo | undefined>;
+  cacheVideo(key: string, video: VideoInfo): Promise<void>;
+  /** Engagement counts over time, oldest first, capped at the most recent MAX_STATS_SNAPSHOTS. */
+  addStatsSnapshot(key: string, snapshot: StatsSnapshot): Promise<void>;
+  getStatsSnapshots(key: string): Promise<StatsSnapshot[]>;
 }
 
 export class MemStorage implements IStorage {
+  private videos: Map<string, { video: VideoInfo; cachedAt: number }>;
+  private statsSnapshots: Map<string, StatsSnapshot[]>;
+  private lastSweep: number;
+
   constructor() {
+    this.videos = new Map();
+    this.statsSnapshots = new Map();
+    this.lastSweep = Date.now();
+  }
+
+  /** Drops expired entries that were never read again; runs at most once per TTL. */
+  private sweepExpiredVideos(now: number): void {
+    if (now - this.lastSweep < VIDEO_CACHE_TTL_MS) return;
+    this.lastSweep = now;
+    for (const [key, entry] of Array.from(this.videos.entries())) {
+      if (now - entry.cachedAt > VIDEO_CACHE_TTL_MS) {
+        this.videos.delete(key);
+      }
+    }
+  }
+
+  async getCachedVideo(key: string): Promise<VideoInfo | undefined> {
+    const entry = this.videos.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.cachedAt > VIDEO_CACHE_TTL_MS) {
+      this.videos.delete(key);
+      return undefined;
+    }
+    return entry.video;
+  }
+
+  async cacheVideo(key: string, video: VideoInfo): Promise<void> {
+    const now = Date.now();
+    this.sweepExpiredVideos(now);
+    this.videos.set(key, { video, cachedAt: now });
+  }
+
+  async addStatsSnapshot(key: string, snapshot: StatsSnapshot): Promise<void> {
+    const snapshots = this.statsSnapshots.get(key) ?? [];
+    snapshots.push(snapshot);
+    if (snapshots.length > MAX_STATS_SNAPSHOTS) {
+      snapshots.splice(0, snapshots.length - MAX_STATS_SNAPSHOTS);
+    }
+    this.statsSnapshots.set(key, snapshots);
+  }
+
+  async getStatsSnapshots(key: string): Promise<StatsSnapshot[]> {
+    return this.statsSnapshots.get(key) ?? [];
   }
 }
 
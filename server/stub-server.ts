@@ -0,0 +1,60 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+/** A local HTTP server standing in for Kuaishou's pages, APIs and CDNs in tests. */
+export interface StubServer {
+  url: string;
+  /** Paths requested so far, with their query strings. */
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+export async function startStubServer(handler: (req: IncomingMessage, res: ServerResponse) => void): Promise<StubServer> {
+  const requests: string[] = [];
+  const server = createServer((req, res) => {
+    requests.push(req.url || "/");
+    handler(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+/** Reads a request body as JSON. */
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+}
+
+/** The parts of a GraphQL request the stubs answer from. */
+export interface GraphqlRequest {
+  operationName: string;
+  /** Every variable the server code sends is a string; unset ones are left out of the JSON. */
+  variables: Record<string, string>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Reads a GraphQL request body, throwing when it does not have the expected shape. */
+export async function readGraphqlRequest(req: IncomingMessage): Promise<GraphqlRequest> {
+  const body = await readJsonBody(req);
+  if (!isRecord(body) || typeof body.operationName !== "string" || !isRecord(body.variables)) {
+    throw new Error("Request body is not a GraphQL request");
+  }
+  const variables: Record<string, string> = {};
+  for (const [name, value] of Object.entries(body.variables)) {
+    if (typeof value !== "string") throw new Error(`GraphQL variable ${name} is not a string`);
+    variables[name] = value;
+  }
+  return { operationName: body.operationName, variables };
+}
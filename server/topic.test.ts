@@ -0,0 +1,74 @@
+import { after, before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { readGraphqlRequest, startStubServer, type StubServer } from "./stub-server";
+
+let topic: typeof import("./topic");
+let stub: StubServer;
+let cursors: string[] = [];
+let refuse = false;
+
+function feed(id: string) {
+  return { author: { id: "u1", name: "Author" }, photo: { id, caption: `Video ${id}`, photoUrl: `https://cdn.example/${id}.mp4` } };
+}
+
+/** Two search pages of three videos each. */
+const PAGES: Record<string, { feeds: object[]; pcursor: string }> = {
+  "": { feeds: [feed("a1"), feed("a2"), feed("a3")], pcursor: "p2" },
+  p2: { feeds: [feed("b1"), feed("b2"), feed("b3")], pcursor: "no_more" },
+};
+
+before(async () => {
+  stub = await startStubServer(async (req, res) => {
+    if (req.method === "POST" && req.url === "/graphql") {
+      const { variables } = await readGraphqlRequest(req);
+      cursors.push(`${variables.pcursor}@${variables.searchSessionId}`);
+      const page = PAGES[variables.pcursor];
+      const list = refuse ? { result: 2 } : { result: 1, searchSessionId: "session-1", ...page };
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ data: { visionSearchPhoto: list } }));
+    } else {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+  // graphql.ts reads these when it loads.
+  process.env.KUAISHOU_GRAPHQL_URL = `${stub.url}/graphql`;
+  process.env.KUAISHOU_COOKIE = "did=test";
+  topic = await import("./topic");
+});
+
+after(() => stub.close());
+
+beforeEach(() => {
+  cursors = [];
+  refuse = false;
+});
+
+const TOPIC_URL = "https://www.kuaishou.com/tag/dance";
+
+function titles(listing: { videos: Array<{ video: { title: string } }> }): string[] {
+  return listing.videos.map((video) => video.video.title);
+}
+
+test("stops at maxCount with a cursor that resumes mid-page without skipping videos", async () => {
+  const first = await topic.listTopicVideos(TOPIC_URL, { maxCount: 2 });
+  assert.deepEqual(titles(first), ["Video a1", "Video a2"]);
+  assert.equal(first.hasMore, true);
+
+  const second = await topic.listTopicVideos(TOPIC_URL, { maxCount: 2, pcursor: first.pcursor, searchSessionId: first.searchSessionId });
+  assert.deepEqual(titles(second), ["Video a3", "Video b1"]);
+  assert.equal(second.searchSessionId, "session-1");
+  assert.equal(second.hasMore, true);
+
+  const third = await topic.listTopicVideos(TOPIC_URL, { maxCount: 2, pcursor: second.pcursor, searchSessionId: second.searchSessionId });
+  assert.deepEqual(titles(third), ["Video b2", "Video b3"]);
+  assert.equal(third.pcursor, undefined);
+  assert.equal(third.hasMore, false);
+  assert.deepEqual(cursors, ["@", "@", "p2@session-1", "p2@session-1"]);
+});
+
+test("a refused later page fails instead of restarting from the topic page", async () => {
+  refuse = true;
+  await assert.rejects(topic.listTopicVideos(TOPIC_URL, { pcursor: "0:p2", searchSessionId: "session-1" }), /refused/);
+  assert.equal(stub.requests.filter((path) => path !== "/graphql").length, 0);
+});
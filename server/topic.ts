@@ -0,0 +1,168 @@
+import type { ListedVideo, VideoStats } from "@shared/schema";
+import { fetchWithRedirects } from "./fetcher";
+import { AUTHOR_FIELDS, PHOTO_FIELDS, decodeListingCursor, encodeListingCursor, queryGraphql } from "./graphql";
+import { buildApolloIndex, findAuthorObject, findPageStates, findPhotoObjects, type StateObject } from "./page-state";
+import { listedVideoFromPhoto } from "./profile";
+
+const DEFAULT_MAX_COUNT = 50;
+const MAX_PAGES = 50;
+
+const SEARCH_QUERY = `
+query visionSearchPhoto($keyword: String, $pcursor: String, $searchSessionId: String, $page: String) {
+  visionSearchPhoto(keyword: $keyword, pcursor: $pcursor, searchSessionId: $searchSessionId, page: $page) {
+    result
+    pcursor
+    searchSessionId
+    feeds {
+      type
+      author { ${AUTHOR_FIELDS} }
+      photo { ${PHOTO_FIELDS} }
+    }
+  }
+}`;
+
+interface SearchPhotoList {
+  visionSearchPhoto: {
+    result: number;
+    pcursor: string;
+    searchSessionId?: string;
+    feeds: Array<{ author?: StateObject; photo?: StateObject }> | null;
+  } | null;
+}
+
+export interface TopicListOptions {
+  maxCount?: number;
+  /** Videos below either threshold are skipped; unknown counts never pass a threshold. */
+  minLikes?: number;
+  minViews?: number;
+  /** Cursor and search session from the previous listing; omitted for the first page. */
+  pcursor?: string;
+  searchSessionId?: string;
+}
+
+export interface TopicListing {
+  topic: string;
+  videos: ListedVideo[];
+  pcursor?: string;
+  searchSessionId?: string;
+  hasMore: boolean;
+}
+
+/** `/tag/<name>`, `/topic/<name>` and hashtag searches (`searchKey=#name`). */
+export function parseTopicName(url: string): string | null {
+  const pathMatch = url.match(/\/(?:fw\/)?(?:tag|topic)\/([^/?#]+)/);
+  if (pathMatch) return decodeURIComponent(pathMatch[1]).replace(/^#/, "");
+  try {
+    const searchKey = new URL(url).searchParams.get("searchKey") || "";
+    return searchKey.startsWith("#") ? searchKey.slice(1) : null;
+  } catch {
+    return null;
+  }
+}
+
+function meetsThreshold(count: number | undefined, minimum: number | undefined): boolean {
+  if (minimum === undefined) return true;
+  return count !== undefined && count >= minimum;
+}
+
+function passesFilters(stats: VideoStats | undefined, options: TopicListOptions): boolean {
+  return meetsThreshold(stats?.likes, options.minLikes) && meetsThreshold(stats?.views, options.minViews);
+}
+
+function topicPageUrl(topic: string): string {
+  return `https://www.kuaishou.com/search/video?searchKey=${encodeURIComponent(`#${topic}`)}`;
+}
+
+/**
+ * Search pages until maxCount videos are listed. When that happens mid-page,
+ * the returned cursor and session point back at that page with the listed
+ * feeds to skip.
+ */
+async function listViaGraphql(topic: string, options: TopicListOptions): Promise<TopicListing> {
+  const maxCount = options.maxCount ?? DEFAULT_MAX_COUNT;
+  const referer = topicPageUrl(topic);
+  const videos: ListedVideo[] = [];
+  let { pcursor, skip } = decodeListingCursor(options.pcursor);
+  let searchSessionId = options.searchSessionId ?? "";
+  let hasMore = true;
+
+  for (let page = 0; page < MAX_PAGES && hasMore && videos.length < maxCount; page++) {
+    const data = await queryGraphql<SearchPhotoList>(
+      "visionSearchPhoto",
+      SEARCH_QUERY,
+      { keyword: `#${topic}`, pcursor, searchSessionId, page: "search" },
+      referer,
+    );
+    const list = data.visionSearchPhoto;
+    if (!list || list.result !== 1) {
+      throw new Error("Kuaishou refused the topic listing request");
+    }
+
+    const feeds = list.feeds ?? [];
+    let consumed = feeds.length;
+    for (let index = skip; index < feeds.length; index++) {
+      const feed = feeds[index];
+      if (!feed.photo) continue;
+      const listed = listedVideoFromPhoto(feed.photo, feed.author);
+      if (!listed || !passesFilters(listed.video.stats, options)) continue;
+      if (videos.some((video) => video.url === listed.url)) continue;
+      videos.push(listed);
+      if (videos.length >= maxCount) {
+        consumed = index + 1;
+        break;
+      }
+    }
+
+    if (consumed < feeds.length) {
+      skip = consumed;
+      break;
+    }
+    pcursor = list.pcursor;
+    skip = 0;
+    searchSessionId = list.searchSessionId || searchSessionId;
+    hasMore = Boolean(pcursor) && pcursor !== "no_more";
+  }
+
+  return {
+    topic,
+    videos,
+    pcursor: hasMore ? encodeListingCursor({ pcursor, skip }) : undefined,
+    searchSessionId: searchSessionId || undefined,
+    hasMore,
+  };
+}
+
+/** First page only, from whatever feed the topic page server-renders. */
+async function listViaPage(url: string, topic: string, options: TopicListOptions): Promise<TopicListing> {
+  const response = await fetchWithRedirects(url);
+  const html = await response.text();
+  const maxCount = options.maxCount ?? DEFAULT_MAX_COUNT;
+  const videos: ListedVideo[] = [];
+
+  for (const state of findPageStates(html)) {
+    const index = buildApolloIndex(state.data);
+    for (const photo of findPhotoObjects(state.data)) {
+      const listed = listedVideoFromPhoto(photo, findAuthorObject(photo, index), index);
+      if (!listed || !passesFilters(listed.video.stats, options)) continue;
+      if (!videos.some((video) => video.url === listed.url)) videos.push(listed);
+    }
+  }
+
+  return { topic, videos: videos.slice(0, maxCount), hasMore: false };
+}
+
+export async function listTopicVideos(url: string, options: TopicListOptions = {}): Promise<TopicListing> {
+  const topic = parseTopicName(url);
+  if (!topic) {
+    throw new Error("Not a Kuaishou topic URL");
+  }
+
+  try {
+    return await listViaGraphql(topic, options);
+  } catch (error) {
+    // The page only has the first results, so a later page has nothing to fall back to.
+    if (options.pcursor) throw error;
+    console.error("Topic GraphQL listing failed, falling back to page state:", error instanceof Error ? error.message : error);
+    return listViaPage(url, topic, options);
+  }
+}
@@ -0,0 +1,113 @@
+import { after, before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { readGraphqlRequest, startStubServer, type StubServer } from "./stub-server";
+
+let videoFetch: typeof import("./video-fetch");
+let storage: typeof import("./storage").storage;
+let stub: StubServer;
+/** Page and GraphQL requests in the order they arrived; media probes are left out. */
+let calls: string[] = [];
+
+/**
+ * Pages for photo IDs starting with "empty" carry nothing downloadable, like a
+ * login wall; GraphQL knows every photo except those starting with "gone".
+ */
+function videoPage(photoId: string): string {
+  if (photoId.startsWith("empty")) {
+    return "<html><head><title>Log in</title></head></html>";
+  }
+  return `<html><head><meta property="og:title" content="From the page"><meta property="og:video" content="${stub.url}/page.mp4"></head></html>`;
+}
+
+before(async () => {
+  stub = await startStubServer(async (req, res) => {
+    const url = req.url || "/";
+    if (req.method === "POST" && url === "/graphql") {
+      const body = await readGraphqlRequest(req);
+      const photoId: string = body.variables.photoId;
+      calls.push(`graphql:${photoId}`);
+      const photo = photoId.startsWith("gone") ? null : { id: photoId, caption: "From GraphQL", photoUrl: `${stub.url}/graphql.mp4`, likeCount: 7 };
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ data: { visionVideoDetail: { status: 1, author: { name: "Author" }, photo } } }));
+    } else if (url.startsWith("/short-video/")) {
+      const photoId = url.slice("/short-video/".length);
+      calls.push(`page:${photoId}`);
+      res.setHeader("Content-Type", "text/html");
+      res.end(videoPage(photoId));
+    } else {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+  // graphql.ts reads these when it loads; KUAISHOU_GRAPHQL_EXTRACTION is read on every fetch.
+  process.env.KUAISHOU_GRAPHQL_URL = `${stub.url}/graphql`;
+  process.env.KUAISHOU_COOKIE = "did=test";
+  videoFetch = await import("./video-fetch");
+  ({ storage } = await import("./storage"));
+});
+
+after(() => stub.close());
+
+beforeEach(() => {
+  calls = [];
+  delete process.env.KUAISHOU_GRAPHQL_EXTRACTION;
+});
+
+// Each test uses its own photo IDs so the video cache never answers for it.
+
+test("before: asks GraphQL first and skips the page when it answers", async () => {
+  process.env.KUAISHOU_GRAPHQL_EXTRACTION = "before";
+
+  const fetched = await videoFetch.fetchVideo(`${stub.url}/short-video/3xbefore`);
+
+  assert.equal(fetched?.videoInfo.videoUrl, `${stub.url}/graphql.mp4`);
+  assert.equal(fetched?.videoInfo.title, "From GraphQL");
+  assert.deepEqual(calls, ["graphql:3xbefore"]);
+});
+
+test("before: falls back to the page when GraphQL has nothing", async () => {
+  process.env.KUAISHOU_GRAPHQL_EXTRACTION = "before";
+
+  const fetched = await videoFetch.fetchVideo(`${stub.url}/short-video/gone-before`);
+
+  assert.equal(fetched?.videoInfo.videoUrl, `${stub.url}/page.mp4`);
+  assert.deepEqual(calls, ["graphql:gone-before", "page:gone-before"]);
+});
+
+test("after (the default): only asks GraphQL when the page has nothing", async () => {
+  const fromPage = await videoFetch.fetchVideo(`${stub.url}/short-video/3xafter`);
+  assert.equal(fromPage?.videoInfo.videoUrl, `${stub.url}/page.mp4`);
+  assert.equal(fromPage?.videoInfo.title, "From the page");
+  assert.equal(fromPage?.videoInfo.pageUrl, "https://www.kuaishou.com/short-video/3xafter");
+  assert.deepEqual(calls, ["page:3xafter"]);
+
+  calls = [];
+  process.env.KUAISHOU_GRAPHQL_EXTRACTION = "after";
+  const fromGraphql = await videoFetch.fetchVideo(`${stub.url}/short-video/empty-after`);
+  assert.equal(fromGraphql?.videoInfo.videoUrl, `${stub.url}/graphql.mp4`);
+  assert.deepEqual(calls, ["page:empty-after", "graphql:empty-after"]);
+});
+
+test("off: never asks GraphQL, even when the page has nothing", async () => {
+  process.env.KUAISHOU_GRAPHQL_EXTRACTION = "off";
+
+  const fromPage = await videoFetch.fetchVideo(`${stub.url}/short-video/3xoff`);
+  assert.equal(fromPage?.videoInfo.videoUrl, `${stub.url}/page.mp4`);
+
+  const missing = await videoFetch.fetchVideo(`${stub.url}/short-video/empty-off`);
+  assert.equal(missing, null);
+  assert.deepEqual(calls, ["page:3xoff", "page:empty-off"]);
+});
+
+test("a cached lookup still adds a stats snapshot", async () => {
+  process.env.KUAISHOU_GRAPHQL_EXTRACTION = "before";
+  const url = `${stub.url}/short-video/3xcached`;
+
+  await videoFetch.fetchVideo(url);
+  const cached = await videoFetch.fetchVideo(url);
+
+  assert.equal(cached?.videoInfo.stats?.likes, 7);
+  assert.deepEqual(calls, ["graphql:3xcached"], "the second lookup is answered from the cache");
+  const snapshots = await storage.getStatsSnapshots("kuaishou:3xcached");
+  assert.deepEqual(snapshots.map((snapshot) => snapshot.stats.likes), [7, 7]);
+});
@@ -0,0 +1,152 @@
+import type { ExtractionDebug, VideoId, VideoInfo } from "@shared/schema";
+import { parseVideoId, shortVideoUrl, videoIdKey } from "@shared/video-id";
+import { buildOutcome, runExtractors, type ExtractionOutcome, type NamedResult } from "./extractors";
+import { extractViaGraphql } from "./extractors/graphql-detail";
+import { isMobileUrl, mobileExtractor } from "./extractors/mobile";
+import { matchMetaContent } from "./extractors/utils";
+import { fetchWithRedirects, getMobileUserAgent } from "./fetcher";
+import { enrichWithProbe } from "./probe";
+import { storage } from "./storage";
+import { resolveVideoId } from "./video-id";
+
+const DEFAULT_PAGE_URL = "https://www.kuaishou.com/";
+
+/**
+ * When the GraphQL detail query runs relative to HTML scraping:
+ * `before` tries it first and skips the page when it answers,
+ * `after` (default) only asks when scraping found nothing, `off` never does.
+ */
+type GraphqlMode = "before" | "after" | "off";
+
+function graphqlMode(): GraphqlMode {
+  const mode = process.env.KUAISHOU_GRAPHQL_EXTRACTION;
+  return mode === "before" || mode === "off" ? mode : "after";
+}
+
+async function safeGraphql(videoId: VideoId | null): Promise<NamedResult | null> {
+  if (!videoId || videoId.platform !== "kuaishou") return null;
+  try {
+    return await extractViaGraphql(videoId.photoId);
+  } catch (error) {
+    console.error("GraphQL extraction failed:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+async function fetchAndExtract(url: string, userAgent?: string): Promise<{ finalUrl: string; results: NamedResult[] }> {
+  const response = await fetchWithRedirects(url, undefined, userAgent);
+  const html = await response.text();
+  const finalUrl = response.url || url;
+  return { finalUrl, results: runExtractors({ html, url: finalUrl }) };
+}
+
+/**
+ * Mobile-only hosts hand desktop browsers an "open in app" shell without the
+ * embedded state, so when the mobile extractor found nothing the page is
+ * fetched again as a phone.
+ */
+async function scrapePage(url: string): Promise<{ finalUrl: string; results: NamedResult[] }> {
+  const page = await fetchAndExtract(url);
+  const sawMobileData = page.results.some((result) => result.name === mobileExtractor.name);
+  if (!isMobileUrl(page.finalUrl) || sawMobileData) {
+    return page;
+  }
+
+  const mobilePage = await fetchAndExtract(page.finalUrl, getMobileUserAgent());
+  return mobilePage.results.length > 0 ? mobilePage : page;
+}
+
+export interface FetchedVideo {
+  videoInfo: VideoInfo;
+  debug?: ExtractionDebug;
+}
+
+/** Appends the video's current engagement counts to its stats history. */
+async function recordStats(key: string, videoInfo: VideoInfo): Promise<void> {
+  if (videoInfo.stats) {
+    await storage.addStatsSnapshot(key, { capturedAt: new Date().toISOString(), stats: videoInfo.stats });
+  }
+}
+
+/**
+ * Probes the chosen stream, settles the canonical ID and page, then caches and
+ * records stats. `pageUrl` is where the video was found; Kuaishou photos link
+ * to their short-video page instead, since share links and mobile hosts vary.
+ */
+async function finishVideo(outcome: ExtractionOutcome, knownId: VideoId | null, pageUrl?: string): Promise<FetchedVideo> {
+  const videoInfo = await enrichWithProbe(outcome.videoInfo);
+  videoInfo.videoId = knownId ?? videoInfo.videoId;
+  videoInfo.photoId = videoInfo.videoId?.photoId;
+  videoInfo.pageUrl = videoInfo.videoId?.platform === "kuaishou" ? shortVideoUrl(videoInfo.videoId.photoId) : pageUrl;
+  if (videoInfo.videoId) {
+    const key = videoIdKey(videoInfo.videoId);
+    await storage.cacheVideo(key, videoInfo);
+    await recordStats(key, videoInfo);
+  }
+
+  return { videoInfo, debug: outcome.debug };
+}
+
+/**
+ * Resolves a share URL to a probed VideoInfo: cache, then the configured mix
+ * of GraphQL and HTML strategies. Fresh results are cached, and every
+ * lookup, cached or not, records the engagement stats. Null when no strategy found anything downloadable.
+ */
+export async function fetchVideo(url: string, options: { debug?: boolean } = {}): Promise<FetchedVideo | null> {
+  const requestedId = await resolveVideoId(url).catch(() => null);
+  const cacheKey = requestedId && !options.debug ? videoIdKey(requestedId) : null;
+  const cached = cacheKey ? await storage.getCachedVideo(cacheKey) : undefined;
+  if (cacheKey && cached) {
+    // Every lookup adds a point to the series, even while the counts come from the cache.
+    await recordStats(cacheKey, cached);
+    return { videoInfo: cached };
+  }
+
+  const mode = graphqlMode();
+  let outcome: ExtractionOutcome | null = null;
+  let finalUrl = url;
+
+  if (mode === "before") {
+    const graphql = await safeGraphql(requestedId);
+    outcome = graphql ? buildOutcome([graphql]) : null;
+  }
+
+  if (!outcome) {
+    const page = await scrapePage(url);
+    finalUrl = page.finalUrl;
+    outcome = buildOutcome(page.results);
+
+    if (!outcome && mode === "after") {
+      const pageId = requestedId ?? parseVideoId(finalUrl) ?? page.results.map((result) => result.fields.videoId).find(Boolean) ?? null;
+      const graphql = await safeGraphql(pageId);
+      if (graphql) outcome = buildOutcome([...page.results, graphql]);
+    }
+  }
+
+  if (!outcome) {
+    return null;
+  }
+
+  return finishVideo(outcome, requestedId ?? parseVideoId(finalUrl), finalUrl);
+}
+
+/** The page address a saved page declares about itself, via its canonical link or og:url. */
+function declaredPageUrl(html: string): string {
+  const canonical = html.match(/<link[^>]*rel=["']canonical["'][^>]*href=["']([^"']+)["']/i);
+  const pageUrl = canonical ? canonical[1] : matchMetaContent(html, "og:url");
+  return /^https?:\/\//.test(pageUrl) ? pageUrl : "";
+}
+
+/**
+ * Runs the HTML strategies on page source the user saved from their own
+ * browser, for when Kuaishou blocks the server. Nothing is fetched except the
+ * media probe. Null when no strategy found anything downloadable.
+ */
+export async function extractFromHtml(html: string, url?: string): Promise<FetchedVideo | null> {
+  const pageUrl = url || declaredPageUrl(html) || DEFAULT_PAGE_URL;
+  const outcome = buildOutcome(runExtractors({ html, url: pageUrl }));
+  if (!outcome) {
+    return null;
+  }
+  return finishVideo(outcome, parseVideoId(pageUrl), pageUrl === DEFAULT_PAGE_URL ? undefined : pageUrl);
+}
@@ -0,0 +1,28 @@
+import type { VideoId } from "@shared/schema";
+import { isShortLink, parseVideoId } from "@shared/video-id";
+import { getPageHeaders } from "./fetcher";
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * Like parseVideoId, but follows short share links (v.kuaishou.com, /f/,
+ * kw.ai/p/) through their redirects until a URL names the photo. Only the
+ * redirect responses are read; the page itself is never downloaded.
+ */
+export async function resolveVideoId(url: string): Promise<VideoId | null> {
+  const direct = parseVideoId(url);
+  if (direct || !isShortLink(url)) return direct;
+
+  let currentUrl = url;
+  for (let i = 0; i < MAX_REDIRECTS; i++) {
+    const response = await fetch(currentUrl, { headers: getPageHeaders(currentUrl), redirect: "manual" });
+    await response.body?.cancel();
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) return null;
+
+    currentUrl = new URL(location, currentUrl).href;
+    const id = parseVideoId(currentUrl);
+    if (id) return id;
+  }
+  return null;
+}
@@ -1,7 +1,67 @@
 import { z } from "zod";
 
+export const videoVariantSchema = z.object({
+  url: z.string(),
+  resolution: z.string(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  codec: z.enum(["h264", "hevc", "unknown"]),
+  bitrate: z.number().optional(),
+  watermark: z.boolean(),
+  fileSize: z.string().optional(),
+  host: z.string().optional(),
+  /** ISO-8601; set when the CDN URL is signed with an expiry. */
+  expiresAt: z.string().optional(),
+});
+
+export type VideoVariant = z.infer<typeof videoVariantSchema>;
+
+export const postImageSchema = z.object({
+  url: z.string(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+});
+
+export type PostImage = z.infer<typeof postImageSchema>;
+
+export const videoIdSchema = z.object({
+  platform: z.enum(["kuaishou", "kwai"]),
+  photoId: z.string(),
+});
+
+export type VideoId = z.infer<typeof videoIdSchema>;
+
+export const soundtrackSchema = z.object({
+  name: z.string(),
+  artist: z.string().optional(),
+  audioUrl: z.string().optional(),
+});
+
+export type Soundtrack = z.infer<typeof soundtrackSchema>;
+
+export const videoStatsSchema = z.object({
+  views: z.number().optional(),
+  likes: z.number().optional(),
+  comments: z.number().optional(),
+  shares: z.number().optional(),
+});
+
+export type VideoStats = z.infer<typeof videoStatsSchema>;
+
+export const authorInfoSchema = z.object({
+  userId: z.string().optional(),
+  name: z.string(),
+  avatar: z.string().optional(),
+  profileUrl: z.string().optional(),
+  followers: z.number().optional(),
+  verified: z.boolean().optional(),
+});
+
+export type AuthorInfo = z.infer<typeof authorInfoSchema>;
+
 export const videoInfoSchema = z.object({
   title: z.string(),
+  /** Display name; mirrors authorInfo.name when the page identifies the creator. */
   author: z.string(),
   thumbnail: z.string(),
   videoUrl: z.string(),
@@ -9,22 +69,329 @@ export const videoInfoSchema = z.object({
   duration: z.string().optional(),
   quality: z.string().optional(),
   fileSize: z.string().optional(),
+  variants: z.array(videoVariantSchema).optional(),
+  /** Whether videoUrl is the watermarked stream; absent when the source doesn't say. */
+  watermark: z.boolean().optional(),
+  postType: z.enum(["video", "atlas"]).optional(),
+  images: z.array(postImageSchema).optional(),
+  locale: z.string().optional(),
+  videoId: videoIdSchema.optional(),
+  photoId: z.string().optional(),
+  /** Canonical page of the video on its site, for linking back to it. */
+  pageUrl: z.string().optional(),
+  description: z.string().optional(),
+  hashtags: z.array(z.string()).optional(),
+  mentions: z.array(z.string()).optional(),
+  soundtrack: soundtrackSchema.optional(),
+  /** ISO-8601 upload time. */
+  publishedAt: z.string().optional(),
+  stats: videoStatsSchema.optional(),
+  authorInfo: authorInfoSchema.optional(),
 });
 
 export type VideoInfo = z.infer<typeof videoInfoSchema>;
 
+export const extractionDebugSchema = z.object({
+  strategy: z.string(),
+  fieldSources: z.record(z.string(), z.string()),
+  strategies: z.array(z.object({
+    name: z.string(),
+    confidence: z.number(),
+    fields: z.array(z.string()),
+  })),
+});
+
+export type ExtractionDebug = z.infer<typeof extractionDebugSchema>;
+
+export function isSupportedUrl(url: string): boolean {
+  return url.includes("kuaishou.com") || url.includes("kwai.com") || url.includes("kw.ai");
+}
+
 export const fetchVideoRequestSchema = z.object({
-  url: z.string().url().refine((url) => {
-    return url.includes("kuaishou.com") || url.includes("kwai.com");
-  }, "Please enter a valid Kuaishou URL"),
+  url: z.string().url().refine(isSupportedUrl, "Please enter a valid Kuaishou URL"),
+  debug: z.boolean().optional(),
 });
 
 export type FetchVideoRequest = z.infer<typeof fetchVideoRequestSchema>;
 
+export const extractHtmlRequestSchema = z.object({
+  html: z.string().min(1, "Paste the page source or choose a saved .html file").max(10_000_000, "Page source is too large"),
+  /** The page's address, which picks host-specific extractors; read from the markup when omitted. */
+  url: z.string().url().refine(isSupportedUrl, "Please enter a valid Kuaishou URL").optional(),
+});
+
+export type ExtractHtmlRequest = z.infer<typeof extractHtmlRequestSchema>;
+
 export const fetchVideoResponseSchema = z.object({
   success: z.boolean(),
   data: videoInfoSchema.optional(),
   error: z.string().optional(),
+  debug: extractionDebugSchema.optional(),
 });
 
 export type FetchVideoResponse = z.infer<typeof fetchVideoResponseSchema>;
+
+export const listedVideoSchema = z.object({
+  url: z.string(),
+  video: videoInfoSchema,
+});
+
+export type ListedVideo = z.infer<typeof listedVideoSchema>;
+
+export const fetchProfileRequestSchema = z.object({
+  url: z.string().url().refine((url) => {
+    return isSupportedUrl(url) && /\/profile\/[^/?#]+/.test(url);
+  }, "Please enter a valid Kuaishou profile URL"),
+  maxCount: z.number().int().min(1).max(500).optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  /** Cursor from the previous page; omitted for the first page. */
+  pcursor: z.string().optional(),
+});
+
+export type FetchProfileRequest = z.infer<typeof fetchProfileRequestSchema>;
+
+export const creatorProfileSchema = z.object({
+  userId: z.string(),
+  name: z.string().optional(),
+  avatar: z.string().optional(),
+});
+
+export type CreatorProfile = z.infer<typeof creatorProfileSchema>;
+
+export const fetchProfileResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    profile: creatorProfileSchema,
+    videos: z.array(listedVideoSchema),
+    pcursor: z.string().optional(),
+    hasMore: z.boolean(),
+  }).optional(),
+  error: z.string().optional(),
+});
+
+export type FetchProfileResponse = z.infer<typeof fetchProfileResponseSchema>;
+
+export const statsSnapshotSchema = z.object({
+  capturedAt: z.string(),
+  stats: videoStatsSchema,
+});
+
+export type StatsSnapshot = z.infer<typeof statsSnapshotSchema>;
+
+export const statsSeriesResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    videoId: videoIdSchema,
+    snapshots: z.array(statsSnapshotSchema),
+  }).optional(),
+  error: z.string().optional(),
+});
+
+export type StatsSeriesResponse = z.infer<typeof statsSeriesResponseSchema>;
+
+export const fetchMusicRequestSchema = z.object({
+  url: z.string().url().refine((url) => {
+    return isSupportedUrl(url) && /\/music\/[^/?#]+/.test(url);
+  }, "Please enter a valid Kuaishou music URL"),
+  /** Cursor from the previous page; omitted for the first page. */
+  pcursor: z.string().optional(),
+});
+
+export type FetchMusicRequest = z.infer<typeof fetchMusicRequestSchema>;
+
+export const musicInfoSchema = z.object({
+  musicId: z.string(),
+  name: z.string(),
+  artist: z.string().optional(),
+  audioUrl: z.string().optional(),
+  cover: z.string().optional(),
+});
+
+export type MusicInfo = z.infer<typeof musicInfoSchema>;
+
+export const fetchMusicResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    /** Only on the first page. */
+    music: musicInfoSchema.optional(),
+    videos: z.array(listedVideoSchema),
+    pcursor: z.string().optional(),
+    hasMore: z.boolean(),
+  }).optional(),
+  error: z.string().optional(),
+});
+
+export type FetchMusicResponse = z.infer<typeof fetchMusicResponseSchema>;
+
+export const fetchTopicRequestSchema = z.object({
+  url: z.string().url().refine((url) => {
+    return isSupportedUrl(url) && (/\/(tag|topic)\/[^/?#]+/.test(url) || /[?&]searchKey=(#|%23)/i.test(url));
+  }, "Please enter a valid Kuaishou topic URL"),
+  maxCount: z.number().int().min(1).max(500).optional(),
+  minLikes: z.number().int().min(0).optional(),
+  minViews: z.number().int().min(0).optional(),
+  /** Cursor and search session from the previous page; omitted for the first page. */
+  pcursor: z.string().optional(),
+  searchSessionId: z.string().optional(),
+});
+
+export type FetchTopicRequest = z.infer<typeof fetchTopicRequestSchema>;
+
+export const fetchTopicResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    topic: z.string(),
+    videos: z.array(listedVideoSchema),
+    pcursor: z.string().optional(),
+    searchSessionId: z.string().optional(),
+    hasMore: z.boolean(),
+  }).optional(),
+  error: z.string().optional(),
+});
+
+export type FetchTopicResponse = z.infer<typeof fetchTopicResponseSchema>;
+
+export const commentsRequestSchema = z.object({
+  url: z.string().url().refine(isSupportedUrl, "Please enter a valid Kuaishou URL"),
+  format: z.enum(["json", "csv", "ndjson"]).default("json"),
+  maxCount: z.coerce.number().int().min(1).max(5000).default(200),
+  replies: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+});
+
+export type CommentsRequest = z.infer<typeof commentsRequestSchema>;
+
+export const videoCommentSchema = z.object({
+  id: z.string(),
+  authorId: z.string(),
+  authorName: z.string(),
+  authorAvatar: z.string().optional(),
+  content: z.string(),
+  likes: z.number().optional(),
+  publishedAt: z.string().optional(),
+  /** Set on replies: the root comment they belong to. */
+  parentId: z.string().optional(),
+  replyToName: z.string().optional(),
+});
+
+export type VideoComment = z.infer<typeof videoCommentSchema>;
+
+export const commentThreadSchema = videoCommentSchema.extend({
+  replyCount: z.number(),
+  replies: z.array(videoCommentSchema),
+});
+
+export type CommentThread = z.infer<typeof commentThreadSchema>;
+
+export const commentsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    videoId: videoIdSchema,
+    commentCount: z.number().optional(),
+    comments: z.array(commentThreadSchema),
+    hasMore: z.boolean(),
+  }).optional(),
+  error: z.string().optional(),
+});
+
+export type CommentsResponse = z.infer<typeof commentsResponseSchema>;
+
+/** Checks the parsed hostname, so a URL that merely mentions live.kuaishou.com in its path or query is rejected. */
+export function isLiveRoomUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return /^https?:$/.test(parsed.protocol) && parsed.hostname.toLowerCase() === "live.kuaishou.com";
+  } catch {
+    return false;
+  }
+}
+
+export const startLiveRecordingRequestSchema = z.object({
+  url: z.string().url().refine(isLiveRoomUrl, "Please enter a valid Kuaishou live room URL"),
+});
+
+export type StartLiveRecordingRequest = z.infer<typeof startLiveRecordingRequestSchema>;
+
+export const liveRecordingSchema = z.object({
+  id: z.string(),
+  sourceUrl: z.string(),
+  title: z.string(),
+  author: z.string().optional(),
+  format: z.enum(["flv", "ts"]),
+  state: z.enum(["recording", "stopped", "finished", "failed"]),
+  startedAt: z.string(),
+  endedAt: z.string().optional(),
+  elapsedSeconds: z.number(),
+  bytesWritten: z.number(),
+  error: z.string().optional(),
+  /** When the ended recording's file will be deleted. */
+  expiresAt: z.string().optional(),
+});
+
+export type LiveRecording = z.infer<typeof liveRecordingSchema>;
+
+export const liveRecordingResponseSchema = z.object({
+  success: z.boolean(),
+  data: liveRecordingSchema.optional(),
+  error: z.string().optional(),
+});
+
+export type LiveRecordingResponse = z.infer<typeof liveRecordingResponseSchema>;
+
+export const redirectHopSchema = z.object({
+  url: z.string(),
+  status: z.number(),
+  location: z.string().optional(),
+});
+
+export type RedirectHop = z.infer<typeof redirectHopSchema>;
+
+export const pageKindSchema = z.enum(["video", "atlas", "login-wall", "captcha", "deleted", "unknown"]);
+
+export type PageKind = z.infer<typeof pageKindSchema>;
+
+export const sourceCandidateReportSchema = z.object({
+  url: z.string(),
+  /** Strategies that reported this URL; "markup" when it was only seen in the raw HTML. */
+  foundBy: z.array(z.string()),
+  watermark: z.boolean().optional(),
+  resolution: z.string().optional(),
+  codec: z.string().optional(),
+  host: z.string().optional(),
+  expiresAt: z.string().optional(),
+  chosen: z.boolean(),
+  rejection: z.string().optional(),
+});
+
+export type SourceCandidateReport = z.infer<typeof sourceCandidateReportSchema>;
+
+export const extractionDiagnosticsSchema = z.object({
+  requestedUrl: z.string(),
+  finalUrl: z.string(),
+  redirects: z.array(redirectHopSchema),
+  status: z.number(),
+  contentType: z.string(),
+  htmlLength: z.number(),
+  pageKind: pageKindSchema,
+  /** Embedded state globals found in the page (__APOLLO_STATE__, INIT_STATE, ...). */
+  pageStates: z.array(z.string()),
+  strategies: z.array(z.object({
+    name: z.string(),
+    applies: z.boolean(),
+    matched: z.boolean(),
+    confidence: z.number().optional(),
+    fields: z.array(z.string()),
+  })),
+  candidates: z.array(sourceCandidateReportSchema),
+  videoInfo: videoInfoSchema.optional(),
+});
+
+export type ExtractionDiagnostics = z.infer<typeof extractionDiagnosticsSchema>;
+
+export const extractionDiagnosticsResponseSchema = z.object({
+  success: z.boolean(),
+  data: extractionDiagnosticsSchema.optional(),
+  error: z.string().optional(),
+});
+
+export type ExtractionDiagnosticsResponse = z.infer<typeof extractionDiagnosticsResponseSchema>;
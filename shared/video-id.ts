@@ -0,0 +1,76 @@
+import type { VideoId } from "./schema";
+
+export const KWAI_HOST = /(^|\.)(kwai\.com|kw\.ai|kwai-video\.com)$/i;
+
+const PATH_PATTERNS: RegExp[] = [
+  /\/short-video\/([^/?#]+)/,
+  /\/fw\/photo\/([^/?#]+)/,
+  /\/photo\/\d+\/([^/?#]+)/,
+  /\/photo\/([^/?#]+)$/,
+  /\/video\/(\d+)/,
+];
+
+const QUERY_KEYS = ["photoId", "shareObjectId"];
+
+/** Share links that only carry an opaque code; the photo ID appears after following the redirect. */
+const SHORT_LINK_PATTERNS: RegExp[] = [
+  /^v\.kuaishou\.com$/i,
+  /^(www\.)?kuaishou\.com\/f\//i,
+  /^(www\.)?kw\.ai\/p\//i,
+  /^(www\.)?kwai\.com\/p\//i,
+];
+
+export function platformOf(url: string): VideoId["platform"] {
+  try {
+    return KWAI_HOST.test(new URL(url).hostname) ? "kwai" : "kuaishou";
+  } catch {
+    return "kuaishou";
+  }
+}
+
+/**
+ * The photo ID a URL names, when it can be read without a network request.
+ * Returns null for short links and anything unrecognised.
+ */
+export function parseVideoId(url: string): VideoId | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const platform = platformOf(url);
+  for (const pattern of PATH_PATTERNS) {
+    const match = parsed.pathname.match(pattern);
+    if (match) {
+      return { platform, photoId: decodeURIComponent(match[1]) };
+    }
+  }
+  for (const key of QUERY_KEYS) {
+    const value = parsed.searchParams.get(key);
+    if (value) {
+      return { platform, photoId: value };
+    }
+  }
+  return null;
+}
+
+export function isShortLink(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    const hostAndPath = `${parsed.hostname}${parsed.pathname}`;
+    return SHORT_LINK_PATTERNS.some((pattern) => pattern.test(parsed.hostname) || pattern.test(hostAndPath));
+  } catch {
+    return false;
+  }
+}
+
+/** Stable key for history, caching and dedup: `kuaishou:3xabc...`. */
+export function videoIdKey(id: VideoId): string {
+  return `${id.platform}:${id.photoId}`;
+}
+
+export function shortVideoUrl(photoId: string): string {
+  return `https://www.kuaishou.com/short-video/${encodeURIComponent(photoId)}`;
+}